@@ -2,6 +2,7 @@ import { Request, Response } from "express";
 import { Types } from "mongoose";
 import { CreateAddressInput, createAddressSchema, UpdateAddressInput, updateAddressSchema } from "./address.schema";
 import { Address } from "./adress.model";
+import { canAccess, forbidden } from "../helpers/ownership";
 
 export const createAddress = async (
     req: Request<{}, {}, CreateAddressInput>,
@@ -17,7 +18,7 @@ export const createAddress = async (
             });
         }
 
-        const address = await Address.create(parsed.data);
+        const address = await Address.create({ ...parsed.data, user: req.user!.userId });
 
         return res.status(201).json({
             success: true,
@@ -49,6 +50,10 @@ export const getAddressById = async (
             return res.status(404).json({ success: false, message: "Address not found" });
         }
 
+        if (!canAccess(req.user!, address.user, "users:read")) {
+            return forbidden(res);
+        }
+
         return res.status(200).json({
             success: true,
             message: "Address fetched successfully",
@@ -63,11 +68,11 @@ export const getAddressById = async (
 };
 
 export const getAddressesByUser = async (
-    req: Request<{ userId: string }>,
+    req: Request<{ userId?: string }>,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
+        const userId = req.params.userId ?? req.user!.userId;
 
         if (!Types.ObjectId.isValid(userId)) {
             return res.status(400).json({ success: false, message: "Invalid user id" });
@@ -108,12 +113,18 @@ export const updateAddress = async (
             });
         }
 
-        const updated = await Address.findByIdAndUpdate(id, parsed.data, { new: true });
+        const address = await Address.findById(id);
 
-        if (!updated) {
+        if (!address) {
             return res.status(404).json({ success: false, message: "Address not found" });
         }
 
+        if (!canAccess(req.user!, address.user, "users:manage")) {
+            return forbidden(res);
+        }
+
+        const updated = await Address.findByIdAndUpdate(id, parsed.data, { new: true });
+
         return res.status(200).json({
             success: true,
             message: "Address updated successfully",
@@ -138,12 +149,18 @@ export const deleteAddress = async (
             return res.status(400).json({ success: false, message: "Invalid address id" });
         }
 
-        const deleted = await Address.findByIdAndDelete(id);
+        const address = await Address.findById(id);
 
-        if (!deleted) {
+        if (!address) {
             return res.status(404).json({ success: false, message: "Address not found" });
         }
 
+        if (!canAccess(req.user!, address.user, "users:manage")) {
+            return forbidden(res);
+        }
+
+        await address.deleteOne();
+
         return res.status(200).json({
             success: true,
             message: "Address deleted successfully",
@@ -1,12 +1,14 @@
 import { Router } from "express";
 import { createAddress, deleteAddress, getAddressById, getAddressesByUser, updateAddress } from "./address.controllers";
+import { requireSelfOrPermission } from "../helpers/permissions";
 
 const router = Router();
 
 router.post("/create", createAddress);
-router.get("/get:id", getAddressById);
-router.get("/getAll/:id", getAddressesByUser);
-router.put("update/:id", updateAddress);
-router.delete("delete/:id", deleteAddress);
+router.get("/me", getAddressesByUser);
+router.get("/get/:id", getAddressById);
+router.get("/getAll/:userId", requireSelfOrPermission("users:read", "userId"), getAddressesByUser);
+router.put("/update/:id", updateAddress);
+router.delete("/delete/:id", deleteAddress);
 
 export default router;
@@ -6,8 +6,8 @@ export const objectIdSchema = z.custom<Types.ObjectId>(
     { message: "Invalid ObjectId" }
 );
 
+// the owner always comes from the authenticated user, never from the body
 export const createAddressSchema = z.object({
-    user: objectIdSchema,
     country: z.string().trim().min(1),
     city: z.string().trim().min(1),
     postalCode: z.string().trim().min(1),
@@ -0,0 +1,114 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { ApiKey } from "./apiKey.model";
+import { CreateApiKeyInput, createApiKeySchema } from "./apiKey.schema";
+import { hashToken } from "../helpers/session";
+import { recordAudit } from "../helpers/audit";
+
+export const createApiKey = async (
+    req: Request<{}, {}, CreateApiKeyInput>,
+    res: Response
+) => {
+    try {
+        const parsed = createApiKeySchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const prefix = crypto.randomBytes(4).toString("hex");
+        const key = `sk_${prefix}_${crypto.randomBytes(32).toString("hex")}`;
+
+        const apiKey = await ApiKey.create({
+            ...parsed.data,
+            prefix,
+            keyHash: hashToken(key),
+            createdBy: req.user!.userId,
+        });
+
+        await recordAudit({
+            req,
+            action: "api_key.created",
+            targetType: "api_key",
+            targetId: apiKey._id,
+            after: { name: apiKey.name, permissions: apiKey.permissions, expiresAt: apiKey.expiresAt },
+        });
+
+        // the plain key is only ever returned here
+        return res.status(201).json({
+            success: true,
+            message: "API key created successfully, copy it now as it will not be shown again",
+            data: {
+                id: apiKey._id,
+                name: apiKey.name,
+                prefix: apiKey.prefix,
+                permissions: apiKey.permissions,
+                expiresAt: apiKey.expiresAt,
+                key,
+            },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const getApiKeys = async (req: Request, res: Response) => {
+    try {
+        const apiKeys = await ApiKey.find()
+            .populate("createdBy", "name email")
+            .sort({ createdAt: -1 });
+
+        return res.status(200).json({
+            success: true,
+            message: "API keys fetched successfully",
+            data: apiKeys,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const revokeApiKey = async (
+    req: Request<{ id: string }>,
+    res: Response
+) => {
+    try {
+        const { id } = req.params;
+
+        if (!Types.ObjectId.isValid(id)) {
+            return res.status(400).json({ success: false, message: "Invalid API key id" });
+        }
+
+        const apiKey = await ApiKey.findOneAndUpdate(
+            { _id: id, revokedAt: null },
+            { revokedAt: new Date() },
+            { new: true }
+        );
+
+        if (!apiKey) {
+            return res.status(404).json({ success: false, message: "API key not found or already revoked" });
+        }
+
+        await recordAudit({ req, action: "api_key.revoked", targetType: "api_key", targetId: apiKey._id });
+
+        return res.status(200).json({
+            success: true,
+            message: "API key revoked successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
@@ -0,0 +1,69 @@
+import mongoose, { Types } from "mongoose";
+import { Permission, PERMISSIONS } from "../helpers/permissions";
+
+export interface ApiKeyModel {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    permissions: Permission[];
+    createdBy: Types.ObjectId;
+    expiresAt?: Date | null;
+    revokedAt?: Date | null;
+    lastUsedAt?: Date | null;
+    lastUsedIp?: string | null;
+    requestCount: number;
+}
+
+const apiKeySchema = new mongoose.Schema<ApiKeyModel>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        // first characters of the key, shown in listings so admins can tell keys apart
+        prefix: {
+            type: String,
+            required: true,
+        },
+        keyHash: {
+            type: String,
+            required: true,
+            unique: true,
+            select: false,
+        },
+        permissions: {
+            type: [String],
+            enum: PERMISSIONS,
+            default: [],
+        },
+        createdBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+        lastUsedAt: {
+            type: Date,
+            default: null,
+        },
+        lastUsedIp: {
+            type: String,
+            default: null,
+        },
+        requestCount: {
+            type: Number,
+            default: 0,
+        },
+    },
+    { timestamps: true }
+);
+
+export const ApiKey = mongoose.model<ApiKeyModel>("ApiKey", apiKeySchema);
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { createApiKey, getApiKeys, revokeApiKey } from "./apiKey.controllers";
+
+const router = Router();
+
+router.post("/", createApiKey);
+router.get("/", getApiKeys);
+router.delete("/:id", revokeApiKey);
+
+export default router;
@@ -0,0 +1,17 @@
+import { z } from "zod";
+import { PERMISSIONS } from "../helpers/permissions";
+
+export const createApiKeySchema = z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    permissions: z
+        .array(
+            z
+                .enum(PERMISSIONS, "Unknown permission")
+                // keys can never hand out the right to mint more keys
+                .refine(permission => permission !== "api-keys:manage", "API keys cannot manage API keys")
+        )
+        .min(1, "At least one permission is required"),
+    expiresAt: z.coerce.date().refine(date => date > new Date(), "Expiry must be in the future").optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
@@ -0,0 +1,55 @@
+import { Request, Response } from "express";
+import { AuditEvent } from "./audit.model";
+import { ListAuditEventsQuery, listAuditEventsQuerySchema } from "./audit.schema";
+import { buildPagination } from "../helpers/query";
+
+export const getAuditEvents = async (
+    req: Request<{}, {}, {}, ListAuditEventsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = listAuditEventsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { actor, action, targetType, targetId, from, to, page, limit } = parsed.data;
+
+        const filter: Record<string, unknown> = {};
+        if (actor) filter.actor = actor;
+        if (action) filter.action = action;
+        if (targetType) filter.targetType = targetType;
+        if (targetId) filter.targetId = targetId;
+        if (from || to) {
+            filter.createdAt = {
+                ...(from && { $gte: from }),
+                ...(to && { $lte: to }),
+            };
+        }
+
+        const [events, total] = await Promise.all([
+            AuditEvent.find(filter)
+                .populate("actor", "name email")
+                .sort({ createdAt: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            AuditEvent.countDocuments(filter),
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            message: "Audit events fetched successfully",
+            data: events,
+            pagination: buildPagination(page, limit, total),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
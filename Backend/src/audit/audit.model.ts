@@ -0,0 +1,82 @@
+import mongoose, { Types } from "mongoose";
+
+export interface AuditEventModel {
+    actor?: Types.ObjectId | null;
+    action: string;
+    targetType: "user" | "product" | "category" | "review" | "order" | "payment" | "api_key";
+    targetId?: Types.ObjectId | null;
+    before?: Record<string, unknown> | null;
+    after?: Record<string, unknown> | null;
+    metadata?: Record<string, unknown> | null;
+    ip?: string | null;
+    userAgent?: string | null;
+    createdAt: Date;
+}
+
+export const AUDIT_RETENTION_DAYS = Number(process.env.AUDIT_RETENTION_DAYS) || 365;
+
+const auditEventSchema = new mongoose.Schema<AuditEventModel>(
+    {
+        actor: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+            index: true,
+        },
+        action: {
+            type: String,
+            required: true,
+            index: true,
+        },
+        targetType: {
+            type: String,
+            enum: ["user", "product", "category", "review", "order", "payment", "api_key"],
+            required: true,
+        },
+        targetId: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null,
+        },
+        before: {
+            type: mongoose.Schema.Types.Mixed,
+            default: null,
+        },
+        after: {
+            type: mongoose.Schema.Types.Mixed,
+            default: null,
+        },
+        metadata: {
+            type: mongoose.Schema.Types.Mixed,
+            default: null,
+        },
+        ip: {
+            type: String,
+            default: null,
+        },
+        userAgent: {
+            type: String,
+            default: null,
+        },
+    },
+    { timestamps: { createdAt: true, updatedAt: false } }
+);
+
+auditEventSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+// retention is the only way events ever leave the collection
+auditEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: AUDIT_RETENTION_DAYS * 24 * 60 * 60 });
+
+// append-only: refuse every update or delete issued through the model
+const rejectChange = () => {
+    throw new Error("Audit events are append-only");
+};
+auditEventSchema.pre(
+    ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteOne", "deleteMany", "findOneAndDelete"],
+    rejectChange
+);
+auditEventSchema.pre("save", function () {
+    if (!this.isNew) {
+        rejectChange();
+    }
+});
+
+export const AuditEvent = mongoose.model<AuditEventModel>("AuditEvent", auditEventSchema);
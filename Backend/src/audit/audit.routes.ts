@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { getAuditEvents } from "./audit.controllers";
+
+const router = Router();
+
+router.get("/", getAuditEvents);
+
+export default router;
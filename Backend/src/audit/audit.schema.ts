@@ -0,0 +1,16 @@
+import { z } from "zod";
+import { objectIdSchema } from "../address/address.schema";
+import { limitQuery, pageQuery } from "../helpers/query";
+
+export const listAuditEventsQuerySchema = z.object({
+    actor: objectIdSchema.optional(),
+    action: z.string().trim().min(1).optional(),
+    targetType: z.enum(["user", "product", "category", "review", "order", "payment", "api_key"]).optional(),
+    targetId: objectIdSchema.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    page: pageQuery,
+    limit: limitQuery,
+});
+
+export type ListAuditEventsQuery = z.input<typeof listAuditEventsQuerySchema>;
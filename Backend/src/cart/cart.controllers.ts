@@ -1,37 +1,86 @@
 import { Request, Response } from "express";
 import { Types } from "mongoose";
 import { Cart } from "./cart.model";
+import Product from "../product/product.model";
+
+// Looks up what a cart line points at and how many of it can be bought. Products
+// with variants can only be added as one of their variants, others never can.
+const resolveCartItem = async (productId: string, variantId?: string | null) => {
+    const product = await Product.findOne({ _id: productId, isActive: true });
+
+    if (!product) {
+        return { error: { status: 404, message: "Product not found" } };
+    }
+
+    if (product.variants.length === 0) {
+        if (variantId) {
+            return { error: { status: 400, message: "This product has no variants" } };
+        }
+        return { stock: product.stock };
+    }
+
+    if (!variantId) {
+        return { error: { status: 400, message: "Please choose a variant of this product" } };
+    }
+
+    const variant = product.variants.find(variant => variant._id.equals(variantId) && variant.isActive);
+
+    if (!variant) {
+        return { error: { status: 404, message: "Variant not found" } };
+    }
+
+    return { stock: variant.stock };
+};
+
+const isSameItem = (
+    item: { product: Types.ObjectId; variant?: Types.ObjectId | null },
+    productId: string,
+    variantId?: string | null
+) => {
+    return item.product.toString() === productId && (item.variant?.toString() ?? null) === (variantId ?? null);
+};
 
 export const addToCart = async (
-    req: Request<{ userId: string }, {}, { productId: string; quantity?: number }>,
+    req: Request<{}, {}, { productId: string; variantId?: string | null; quantity?: number }>,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
-        const { productId, quantity = 1 } = req.body;
+        const userId = req.user!.userId;
+        const { productId, variantId = null, quantity = 1 } = req.body;
 
 
-        if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(productId)) {
-            return res.status(400).json({ success: false, message: "Invalid user or product id" });
+        if (!Types.ObjectId.isValid(productId) || (variantId && !Types.ObjectId.isValid(variantId))) {
+            return res.status(400).json({ success: false, message: "Invalid product or variant id" });
+        }
+
+        const resolved = await resolveCartItem(productId, variantId);
+
+        if (resolved.error) {
+            return res.status(resolved.error.status).json({ success: false, message: resolved.error.message });
         }
 
         const productObjId = new Types.ObjectId(productId);
+        const variantObjId = variantId ? new Types.ObjectId(variantId) : null;
 
         let cart = await Cart.findOne({ user: userId });
 
+        const itemIndex = cart ? cart.items.findIndex(item => isSameItem(item, productId, variantId)) : -1;
+        const inCart = itemIndex > -1 ? cart!.items[itemIndex].quantity : 0;
+
+        if (inCart + quantity > resolved.stock) {
+            return res.status(409).json({ success: false, message: `Only ${resolved.stock} left in stock` });
+        }
+
         if (!cart) {
             cart = await Cart.create({
                 user: userId,
-                items: [{ product: productObjId, quantity }],
+                items: [{ product: productObjId, variant: variantObjId, quantity }],
             });
         } else {
-            const itemIndex = cart.items.findIndex(
-                item => item.product.toString() === productId
-            );
             if (itemIndex > -1) {
                 cart.items[itemIndex].quantity += quantity;
             } else {
-                cart.items.push({ product: productObjId, quantity });
+                cart.items.push({ product: productObjId, variant: variantObjId, quantity });
             }
             await cart.save();
         }
@@ -47,15 +96,11 @@ export const addToCart = async (
 };
 
 export const getUserCart = async (
-    req: Request<{ userId: string }>,
+    req: Request,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
-
-        if (!Types.ObjectId.isValid(userId)) {
-            return res.status(400).json({ success: false, message: "Invalid user id" });
-        }
+        const userId = req.user!.userId;
 
         const cart = await Cart.findOne({ user: userId }).populate("items.product");
 
@@ -74,15 +119,15 @@ export const getUserCart = async (
 };
 
 export const updateCartItem = async (
-    req: Request<{ userId: string }, {}, { productId: string; quantity: number }>,
+    req: Request<{}, {}, { productId: string; variantId?: string | null; quantity: number }>,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
-        const { productId, quantity } = req.body;
+        const userId = req.user!.userId;
+        const { productId, variantId = null, quantity } = req.body;
 
-        if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(productId)) {
-            return res.status(400).json({ success: false, message: "Invalid user or product id" });
+        if (!Types.ObjectId.isValid(productId) || (variantId && !Types.ObjectId.isValid(variantId))) {
+            return res.status(400).json({ success: false, message: "Invalid product or variant id" });
         }
 
         const cart = await Cart.findOne({ user: userId });
@@ -91,7 +136,7 @@ export const updateCartItem = async (
             return res.status(404).json({ success: false, message: "Cart not found" });
         }
 
-        const itemIndex = cart.items.findIndex(item => item.product.toString() === productId);
+        const itemIndex = cart.items.findIndex(item => isSameItem(item, productId, variantId));
 
         if (itemIndex === -1) {
             return res.status(404).json({ success: false, message: "Product not in cart" });
@@ -100,6 +145,16 @@ export const updateCartItem = async (
         if (quantity <= 0) {
             cart.items.splice(itemIndex, 1);
         } else {
+            const resolved = await resolveCartItem(productId, variantId);
+
+            if (resolved.error) {
+                return res.status(resolved.error.status).json({ success: false, message: resolved.error.message });
+            }
+
+            if (quantity > resolved.stock) {
+                return res.status(409).json({ success: false, message: `Only ${resolved.stock} left in stock` });
+            }
+
             cart.items[itemIndex].quantity = quantity;
         }
 
@@ -116,14 +171,16 @@ export const updateCartItem = async (
 };
 
 export const removeFromCart = async (
-    req: Request<{ userId: string; productId: string }>,
+    req: Request<{ productId: string }, {}, {}, { variantId?: string }>,
     res: Response
 ) => {
     try {
-        const { userId, productId } = req.params;
+        const userId = req.user!.userId;
+        const { productId } = req.params;
+        const variantId = req.query.variantId ?? null;
 
-        if (!Types.ObjectId.isValid(userId) || !Types.ObjectId.isValid(productId)) {
-            return res.status(400).json({ success: false, message: "Invalid user or product id" });
+        if (!Types.ObjectId.isValid(productId) || (variantId && !Types.ObjectId.isValid(variantId))) {
+            return res.status(400).json({ success: false, message: "Invalid product or variant id" });
         }
 
         const cart = await Cart.findOne({ user: userId });
@@ -132,7 +189,7 @@ export const removeFromCart = async (
             return res.status(404).json({ success: false, message: "Cart not found" });
         }
 
-        const itemIndex = cart.items.findIndex(item => item.product.toString() === productId);
+        const itemIndex = cart.items.findIndex(item => isSameItem(item, productId, variantId));
 
         if (itemIndex === -1) {
             return res.status(404).json({ success: false, message: "Product not in cart" });
@@ -152,15 +209,11 @@ export const removeFromCart = async (
 };
 
 export const clearCart = async (
-    req: Request<{ userId: string }>,
+    req: Request,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
-
-        if (!Types.ObjectId.isValid(userId)) {
-            return res.status(400).json({ success: false, message: "Invalid user id" });
-        }
+        const userId = req.user!.userId;
 
         const cart = await Cart.findOne({ user: userId });
 
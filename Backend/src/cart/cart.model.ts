@@ -1,7 +1,9 @@
 import mongoose, { Types } from "mongoose";
 
-interface CartItem {
+export interface CartItem {
     product: Types.ObjectId;
+    // the chosen variant, null for products without variants
+    variant?: Types.ObjectId | null;
     quantity: number;
 }
 
@@ -25,6 +27,10 @@ const cartSchema = new mongoose.Schema<CartModel>(
                     ref: "Product",
                     required: true,
                 },
+                variant: {
+                    type: mongoose.Schema.Types.ObjectId,
+                    default: null,
+                },
                 quantity: {
                     type: Number,
                     default: 1,
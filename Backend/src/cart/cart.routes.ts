@@ -3,10 +3,10 @@ import { addToCart, getUserCart, updateCartItem, removeFromCart, clearCart } fro
 
 const router = Router();
 
-router.post("add/:userId", addToCart);
-router.get("get/:userId", getUserCart);
-router.put("update/:userId", updateCartItem);
-router.delete("remove/:userId/:productId", removeFromCart);
-router.delete("clear/:userId", clearCart);
+router.post("/me/add", addToCart);
+router.get("/me", getUserCart);
+router.put("/me/update", updateCartItem);
+router.delete("/me/remove/:productId", removeFromCart);
+router.delete("/me/clear", clearCart);
 
 export default router;
@@ -0,0 +1,303 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Category, CategoryModel, findCategory } from "./category.model";
+import {
+    CreateCategoryInput,
+    createCategorySchema,
+    UpdateCategoryInput,
+    updateCategorySchema,
+} from "./category.schema";
+import Product from "../product/product.model";
+import { recordAudit } from "../helpers/audit";
+
+type CategoryNode = CategoryModel & { _id: Types.ObjectId; children: CategoryNode[] };
+
+const slugify = (value: string) => {
+    return value
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+};
+
+export const getCategories = async (req: Request, res: Response) => {
+    try {
+        const categories = await Category.find().sort({ sortOrder: 1, name: 1 }).lean();
+
+        // categories arrive sorted, so children keep their order when attached
+        const nodes = new Map<string, CategoryNode>();
+        categories.forEach(category => nodes.set(category._id.toString(), { ...category, children: [] }));
+
+        const roots: CategoryNode[] = [];
+        nodes.forEach(node => {
+            const parent = node.parent ? nodes.get(node.parent.toString()) : undefined;
+            if (parent) {
+                parent.children.push(node);
+            } else {
+                roots.push(node);
+            }
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Categories fetched successfully",
+            data: roots,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const getCategory = async (req: Request<{ idOrSlug: string }>, res: Response) => {
+    try {
+        const category = await findCategory(req.params.idOrSlug).populate("ancestors", "name slug");
+
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: "Category not found",
+            });
+        }
+
+        const children = await Category.find({ parent: category._id }).sort({ sortOrder: 1, name: 1 });
+
+        return res.status(200).json({
+            success: true,
+            message: "Category fetched successfully",
+            data: { ...category.toObject(), children },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const createCategory = async (
+    req: Request<{}, {}, CreateCategoryInput>,
+    res: Response
+) => {
+    try {
+        const parsed = createCategorySchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { parent: parentId, ...data } = parsed.data;
+
+        const parent = parentId ? await Category.findById(parentId) : null;
+
+        if (parentId && !parent) {
+            return res.status(404).json({
+                success: false,
+                message: "Parent category not found",
+            });
+        }
+
+        const slug = data.slug ?? slugify(data.name);
+
+        if (!slug) {
+            return res.status(400).json({
+                success: false,
+                message: "A slug could not be generated from the name, please provide one",
+            });
+        }
+
+        if (await Category.exists({ slug })) {
+            return res.status(409).json({
+                success: false,
+                message: "A category with this slug already exists",
+            });
+        }
+
+        const category = await Category.create({
+            ...data,
+            slug,
+            parent: parent?._id ?? null,
+            ancestors: parent ? [...parent.ancestors, parent._id] : [],
+        });
+
+        await recordAudit({
+            req,
+            action: "category.created",
+            targetType: "category",
+            targetId: category._id,
+            after: { name: category.name, slug: category.slug, parent: category.parent },
+        });
+
+        return res.status(201).json({
+            success: true,
+            message: "Category created successfully",
+            data: category,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const updateCategory = async (
+    req: Request<{ id: string }, {}, UpdateCategoryInput>,
+    res: Response
+) => {
+    try {
+        const parsed = updateCategorySchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (!Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid category id",
+            });
+        }
+
+        const category = await Category.findById(req.params.id);
+
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: "Category not found",
+            });
+        }
+
+        const { parent: parentId, ...data } = parsed.data;
+        const before = category.toObject();
+
+        if (data.slug && data.slug !== category.slug && await Category.exists({ slug: data.slug })) {
+            return res.status(409).json({
+                success: false,
+                message: "A category with this slug already exists",
+            });
+        }
+
+        const isMoving = parentId !== undefined && String(parentId) !== String(category.parent);
+
+        if (isMoving) {
+            const parent = parentId ? await Category.findById(parentId) : null;
+
+            if (parentId && !parent) {
+                return res.status(404).json({
+                    success: false,
+                    message: "Parent category not found",
+                });
+            }
+
+            if (parent && (parent._id.equals(category._id) || parent.ancestors.some(id => id.equals(category._id)))) {
+                return res.status(400).json({
+                    success: false,
+                    message: "A category cannot be moved under itself or one of its descendants",
+                });
+            }
+
+            category.parent = parent?._id ?? null;
+            category.ancestors = parent ? [...parent.ancestors, parent._id] : [];
+        }
+
+        category.set(data);
+        await category.save();
+
+        // descendants keep the part of their path below this category and take the new path above it
+        if (isMoving) {
+            const descendants = await Category.find({ ancestors: category._id });
+
+            if (descendants.length > 0) {
+                await Category.bulkWrite(
+                    descendants.map(descendant => {
+                        const index = descendant.ancestors.findIndex(id => id.equals(category._id));
+                        return {
+                            updateOne: {
+                                filter: { _id: descendant._id },
+                                update: { ancestors: [...category.ancestors, ...descendant.ancestors.slice(index)] },
+                            },
+                        };
+                    })
+                );
+            }
+        }
+
+        await recordAudit({
+            req,
+            action: "category.updated",
+            targetType: "category",
+            targetId: category._id,
+            before,
+            after: category.toObject(),
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Category updated successfully",
+            data: category,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const deleteCategory = async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        if (!Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid category id",
+            });
+        }
+
+        const category = await Category.findById(req.params.id);
+
+        if (!category) {
+            return res.status(404).json({
+                success: false,
+                message: "Category not found",
+            });
+        }
+
+        if (await Category.exists({ parent: category._id })) {
+            return res.status(409).json({
+                success: false,
+                message: "Move or delete the subcategories of this category first",
+            });
+        }
+
+        await Product.updateMany({ categories: category._id }, { $pull: { categories: category._id } });
+        await category.deleteOne();
+
+        await recordAudit({
+            req,
+            action: "category.deleted",
+            targetType: "category",
+            targetId: category._id,
+            before: { name: category.name, slug: category.slug, parent: category.parent },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Category deleted successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
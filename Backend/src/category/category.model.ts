@@ -0,0 +1,66 @@
+import mongoose, { Types } from "mongoose";
+
+export interface CategoryModel {
+    name: string;
+    slug: string;
+    description?: string | null;
+    parent?: Types.ObjectId | null;
+    ancestors: Types.ObjectId[];
+    sortOrder: number;
+}
+
+const categorySchema = new mongoose.Schema<CategoryModel>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        slug: {
+            type: String,
+            required: true,
+            unique: true,
+            lowercase: true,
+            trim: true,
+        },
+        description: {
+            type: String,
+            trim: true,
+            default: null,
+        },
+        parent: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "Category",
+            default: null,
+        },
+        // every category above this one, root first, so a subtree is a single query
+        ancestors: {
+            type: [mongoose.Schema.Types.ObjectId],
+            ref: "Category",
+            default: [],
+            index: true,
+        },
+        // position among its siblings, lowest first
+        sortOrder: {
+            type: Number,
+            default: 0,
+        },
+    },
+    { timestamps: true }
+);
+
+categorySchema.index({ parent: 1, sortOrder: 1 });
+
+export const Category = mongoose.model<CategoryModel>("Category", categorySchema);
+
+export const findCategory = (idOrSlug: string) => {
+    return Types.ObjectId.isValid(idOrSlug)
+        ? Category.findById(idOrSlug)
+        : Category.findOne({ slug: idOrSlug.toLowerCase() });
+};
+
+// The category itself plus all of its descendants.
+export const getCategorySubtreeIds = async (categoryId: Types.ObjectId) => {
+    const descendantIds = await Category.find({ ancestors: categoryId }).distinct("_id");
+    return [categoryId, ...descendantIds];
+};
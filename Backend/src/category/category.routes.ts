@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+    createCategory,
+    deleteCategory,
+    getCategories,
+    getCategory,
+    updateCategory,
+} from "./category.controllers";
+import { requirePermission } from "../helpers/permissions";
+
+const router = Router();
+
+router.get("/", getCategories);
+router.get("/:idOrSlug", getCategory);
+router.post("/", requirePermission("products:write"), createCategory);
+router.put("/:id", requirePermission("products:write"), updateCategory);
+router.delete("/:id", requirePermission("products:write"), deleteCategory);
+
+export default router;
@@ -0,0 +1,21 @@
+import { z } from "zod";
+import { objectIdSchema } from "../address/address.schema";
+
+const slugSchema = z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain letters, numbers and single dashes");
+
+export const createCategorySchema = z.object({
+    name: z.string().trim().min(1, "Name is required"),
+    slug: slugSchema.optional(),
+    description: z.string().trim().nullable().optional(),
+    parent: objectIdSchema.nullable().optional(),
+    sortOrder: z.number().int("Sort order must be a whole number").optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial();
+
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>;
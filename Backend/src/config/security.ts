@@ -0,0 +1,17 @@
+export const loginProtection = {
+    maxFailedAttempts: Number(process.env.LOGIN_MAX_FAILED_ATTEMPTS) || 5,
+    lockMinutes: Number(process.env.LOGIN_LOCK_MINUTES) || 15,
+    // delay before answering the n-th consecutive failure: baseDelayMs * 2^(n - 1), capped at maxDelayMs
+    baseDelayMs: Number(process.env.LOGIN_BASE_DELAY_MS) || 250,
+    maxDelayMs: Number(process.env.LOGIN_MAX_DELAY_MS) || 4000,
+    ipMaxAttempts: Number(process.env.LOGIN_IP_MAX_ATTEMPTS) || 20,
+    ipWindowMinutes: Number(process.env.LOGIN_IP_WINDOW_MINUTES) || 15,
+};
+
+export const twoFactor = {
+    issuer: process.env.TWO_FACTOR_ISSUER ?? "Our Ecommerce Store",
+    // roles that may only use permissions from a session that passed a TOTP check
+    requiredRoles: (process.env.TWO_FACTOR_REQUIRED_ROLES ?? "admin").split(",").map(role => role.trim()).filter(Boolean),
+    challengeTtlSeconds: Number(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS) || 5 * 60,
+    recoveryCodeCount: 10,
+};
@@ -0,0 +1,16 @@
+const FE_URL = process.env.FE_URL ?? "http://localhost:3000";
+
+// Pages of the frontend that emailed links point at; each can be overridden on its own.
+export const frontendUrls = {
+    verifyEmail: process.env.FE_VERIFY_EMAIL_URL ?? `${FE_URL}/verify`,
+    resetPassword: process.env.FE_RESET_PASSWORD_URL ?? `${FE_URL}/reset-password`,
+    magicLink: process.env.FE_MAGIC_LINK_URL ?? `${FE_URL}/magic-link`,
+    confirmEmailChange: process.env.FE_CONFIRM_EMAIL_CHANGE_URL ?? `${FE_URL}/confirm-email-change`,
+    unlockAccount: process.env.FE_UNLOCK_ACCOUNT_URL ?? `${FE_URL}/unlock-account`,
+};
+
+export const buildFrontendUrl = (base: string, params: Record<string, string>) => {
+    const url = new URL(base);
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+};
@@ -0,0 +1,241 @@
+import { Request, Response } from "express";
+import { pipeline } from "stream/promises";
+import { Types } from "mongoose";
+import { DataExport, deleteArchive, openArchive, storeArchive } from "./dataExport.model";
+import User from "../user/user.model";
+import { Address } from "../address/adress.model";
+import { Cart } from "../cart/cart.model";
+import { Wishlist } from "../wishlist/wishlist.model";
+import { Order } from "../order/order.model";
+import { Payment } from "../payment/payment.model";
+import { Review } from "../review/review.model";
+import { canAccess, forbidden } from "../helpers/ownership";
+
+const ARCHIVE_TTL_DAYS = 7;
+// an export still unfinished after this is taken to have died with its process
+const EXPORT_TIMEOUT_MINUTES = 30;
+
+const buildArchive = async (userId: Types.ObjectId) => {
+    const [profile, addresses, cart, wishlist, orders, reviews] = await Promise.all([
+        User.findById(userId).select("-password -__v").lean(),
+        Address.find({ user: userId }).select("-__v").lean(),
+        Cart.findOne({ user: userId }).select("-__v").populate("items.product", "title price").lean(),
+        Wishlist.findOne({ user: userId }).select("-__v").populate("products", "title price").lean(),
+        Order.find({ user: userId }).select("-__v").populate("items.product", "title").sort({ createdAt: -1 }).lean(),
+        Review.find({ user: userId }).select("-__v").populate("product", "title").sort({ createdAt: -1 }).lean(),
+    ]);
+
+    const payments = await Payment.find({ order: { $in: orders.map(order => order._id) } })
+        .select("-__v")
+        .sort({ createdAt: -1 })
+        .lean();
+
+    return {
+        generatedAt: new Date(),
+        profile,
+        addresses,
+        cart,
+        wishlist,
+        orders,
+        payments,
+        reviews,
+    };
+};
+
+// Runs after the request has been answered; large histories can take a while.
+const generateExport = async (exportId: Types.ObjectId) => {
+    try {
+        const dataExport = await DataExport.findOneAndUpdate(
+            { _id: exportId, status: "pending" },
+            { status: "processing" },
+            { new: true }
+        );
+
+        if (!dataExport) {
+            return;
+        }
+
+        const archive = await buildArchive(dataExport.user);
+        const archiveFileId = await storeArchive(exportId, archive);
+
+        const result = await DataExport.updateOne(
+            { _id: exportId, status: "processing" },
+            {
+                status: "completed",
+                archiveFileId,
+                completedAt: new Date(),
+                expiresAt: new Date(Date.now() + ARCHIVE_TTL_DAYS * 24 * 60 * 60 * 1000),
+            }
+        );
+
+        // timed out in the meantime, the user has been told it failed
+        if (result.modifiedCount === 0) {
+            await deleteArchive(archiveFileId);
+        }
+    } catch (error) {
+        console.error("Data export error:", error);
+        await DataExport.updateOne({ _id: exportId }, { status: "failed", error: String(error) })
+            .catch(updateError => console.error("Data export error:", updateError));
+    }
+};
+
+export const requestDataExport = async (
+    req: Request<{ userId?: string }>,
+    res: Response
+) => {
+    try {
+        // `/me` has no :userId, admins export other accounts through `/user/:userId`
+        const userId = req.params.userId ?? req.user!.userId;
+
+        if (!Types.ObjectId.isValid(userId)) {
+            return res.status(400).json({ success: false, message: "Invalid user id" });
+        }
+
+        const userExists = await User.exists({ _id: userId });
+
+        if (!userExists) {
+            return res.status(404).json({ success: false, message: "User not found" });
+        }
+
+        // exports cut off by a restart would otherwise block new requests forever
+        await DataExport.updateMany(
+            {
+                user: userId,
+                status: { $in: ["pending", "processing"] },
+                updatedAt: { $lt: new Date(Date.now() - EXPORT_TIMEOUT_MINUTES * 60 * 1000) },
+            },
+            { status: "failed", error: "Data export timed out" }
+        );
+
+        const inProgress = await DataExport.findOne({ user: userId, status: { $in: ["pending", "processing"] } });
+
+        if (inProgress) {
+            return res.status(409).json({
+                success: false,
+                message: "A data export is already in progress",
+                data: inProgress,
+            });
+        }
+
+        const dataExport = await DataExport.create({
+            user: userId,
+            requestedBy: req.user!.userId,
+            requestedFromIp: req.ip ?? null,
+        });
+
+        generateExport(dataExport._id).catch(error => console.error("Data export error:", error));
+
+        return res.status(202).json({
+            success: true,
+            message: "Data export requested, it will be ready to download shortly",
+            data: dataExport,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const getMyDataExports = async (req: Request, res: Response) => {
+    try {
+        const dataExports = await DataExport.find({ user: req.user!.userId }).sort({ createdAt: -1 });
+
+        return res.status(200).json({
+            success: true,
+            message: "Data exports fetched successfully",
+            data: dataExports,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const getDataExportById = async (
+    req: Request<{ exportId: string }>,
+    res: Response
+) => {
+    try {
+        const { exportId } = req.params;
+
+        if (!Types.ObjectId.isValid(exportId)) {
+            return res.status(400).json({ success: false, message: "Invalid export id" });
+        }
+
+        const dataExport = await DataExport.findById(exportId);
+
+        if (!dataExport) {
+            return res.status(404).json({ success: false, message: "Data export not found" });
+        }
+
+        if (!canAccess(req.user!, dataExport.user, "users:manage")) {
+            return forbidden(res);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Data export fetched successfully",
+            data: dataExport,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const downloadDataExport = async (
+    req: Request<{ exportId: string }>,
+    res: Response
+) => {
+    try {
+        const { exportId } = req.params;
+
+        if (!Types.ObjectId.isValid(exportId)) {
+            return res.status(400).json({ success: false, message: "Invalid export id" });
+        }
+
+        const dataExport = await DataExport.findById(exportId).select("+archiveFileId");
+
+        if (!dataExport) {
+            return res.status(404).json({ success: false, message: "Data export not found" });
+        }
+
+        if (!canAccess(req.user!, dataExport.user, "users:manage")) {
+            return forbidden(res);
+        }
+
+        if (dataExport.status === "expired") {
+            return res.status(410).json({ success: false, message: "Data export has expired, please request a new one" });
+        }
+
+        if (dataExport.status !== "completed" || !dataExport.archiveFileId) {
+            return res.status(409).json({ success: false, message: "Data export is not ready yet" });
+        }
+
+        if (dataExport.expiresAt && dataExport.expiresAt < new Date()) {
+            return res.status(410).json({ success: false, message: "Data export has expired, please request a new one" });
+        }
+
+        await dataExport.updateOne({ downloadedAt: new Date() });
+
+        res.setHeader("Content-Type", "application/json");
+        res.setHeader("Content-Disposition", `attachment; filename="data-export-${dataExport._id}.json"`);
+        await pipeline(openArchive(dataExport.archiveFileId), res);
+    } catch (error) {
+        // the archive was already on its way, all that can be done is cut it off
+        if (res.headersSent) {
+            return res.destroy();
+        }
+        res.removeHeader("Content-Disposition");
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
@@ -0,0 +1,107 @@
+import mongoose, { Types } from "mongoose";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+
+export interface DataExportModel {
+    user: Types.ObjectId;
+    requestedBy: Types.ObjectId;
+    requestedFromIp?: string | null;
+    status: "pending" | "processing" | "completed" | "failed" | "expired";
+    archiveFileId?: Types.ObjectId | null;
+    error?: string | null;
+    completedAt?: Date | null;
+    expiresAt?: Date | null;
+    downloadedAt?: Date | null;
+}
+
+// Doubles as the audit trail of who asked for whose data and when, so
+// records are kept after the archive itself has expired.
+const dataExportSchema = new mongoose.Schema<DataExportModel>(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+            index: true,
+        },
+        requestedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        requestedFromIp: {
+            type: String,
+            default: null,
+        },
+        status: {
+            type: String,
+            enum: ["pending", "processing", "completed", "failed", "expired"],
+            default: "pending",
+        },
+        // the archive itself lives in GridFS, a long history outgrows a document
+        archiveFileId: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null,
+            select: false,
+        },
+        error: {
+            type: String,
+            default: null,
+        },
+        completedAt: {
+            type: Date,
+            default: null,
+        },
+        expiresAt: {
+            type: Date,
+            default: null,
+        },
+        downloadedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    { timestamps: true }
+);
+
+export const DataExport = mongoose.model<DataExportModel>("DataExport", dataExportSchema);
+
+const archiveBucket = () => {
+    return new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: "dataExportArchives" });
+};
+
+export const storeArchive = async (exportId: Types.ObjectId, archive: Record<string, unknown>) => {
+    const upload = archiveBucket().openUploadStream(`data-export-${exportId}.json`, {
+        metadata: { dataExport: exportId },
+    });
+    await pipeline(Readable.from([JSON.stringify(archive)]), upload);
+    return upload.id;
+};
+
+export const openArchive = (fileId: Types.ObjectId) => {
+    return archiveBucket().openDownloadStream(fileId);
+};
+
+export const deleteArchive = async (fileId: Types.ObjectId) => {
+    try {
+        await archiveBucket().delete(fileId);
+    } catch (error) {
+        // a file that is already gone is as good as deleted
+        if (!(error instanceof mongoose.mongo.MongoRuntimeError && error.message.startsWith("File not found"))) {
+            throw error;
+        }
+    }
+};
+
+// Deletes the archives of exports past their download window. The record stays
+// as the audit trail, marked expired.
+export const purgeExpiredArchives = async () => {
+    const expired = await DataExport.find({ status: "completed", expiresAt: { $lt: new Date() } }).select("+archiveFileId");
+
+    for (const dataExport of expired) {
+        if (dataExport.archiveFileId) {
+            await deleteArchive(dataExport.archiveFileId);
+        }
+        await DataExport.updateOne({ _id: dataExport._id }, { status: "expired", archiveFileId: null });
+    }
+};
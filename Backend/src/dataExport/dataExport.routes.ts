@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { downloadDataExport, getDataExportById, getMyDataExports, requestDataExport } from "./dataExport.controllers";
+import { requirePermission } from "../helpers/permissions";
+
+const router = Router();
+
+router.post("/me", requestDataExport);
+router.get("/me", getMyDataExports);
+router.post("/user/:userId", requirePermission("users:manage"), requestDataExport);
+router.get("/:exportId", getDataExportById);
+router.get("/:exportId/download", downloadDataExport);
+
+export default router;
@@ -0,0 +1,50 @@
+import { Request } from "express";
+import { Types } from "mongoose";
+import { AuditEvent, AuditEventModel } from "../audit/audit.model";
+
+interface AuditInput {
+    req?: Request;
+    actor?: Types.ObjectId | string | null;
+    action: string;
+    targetType: AuditEventModel["targetType"];
+    targetId?: Types.ObjectId | string | null;
+    before?: Record<string, any> | null;
+    after?: Record<string, any> | null;
+    metadata?: Record<string, unknown>;
+}
+
+// Keeps only the fields that actually changed, on both sides.
+export const diffChanges = (before: Record<string, any>, after: Record<string, any>) => {
+    const changedBefore: Record<string, unknown> = {};
+    const changedAfter: Record<string, unknown> = {};
+
+    Object.keys(after).forEach(key => {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            changedBefore[key] = before[key];
+            changedAfter[key] = after[key];
+        }
+    });
+
+    return { before: changedBefore, after: changedAfter };
+};
+
+// Never lets a failed audit write break the request that triggered it.
+export const recordAudit = async ({ req, actor, action, targetType, targetId, before, after, metadata }: AuditInput) => {
+    try {
+        const changes = before && after ? diffChanges(before, after) : { before: before ?? null, after: after ?? null };
+
+        await AuditEvent.create({
+            // API keys are not users, they are recorded in the metadata instead
+            actor: actor ?? (req?.user?.apiKeyId ? null : req?.user?.userId) ?? null,
+            action,
+            targetType,
+            targetId: targetId ?? null,
+            ...changes,
+            metadata: req?.user?.apiKeyId ? { ...metadata, apiKey: req.user.apiKeyId } : metadata ?? null,
+            ip: req?.ip ?? null,
+            userAgent: req?.get("user-agent") ?? null,
+        });
+    } catch (error) {
+        console.error("Audit error:", error);
+    }
+};
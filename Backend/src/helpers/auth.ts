@@ -1,8 +1,59 @@
 import { NextFunction, Request, Response } from "express";
 import { verifyToken } from "./jwt";
+import { Session } from "../session/session.model";
+import { Permission, Role } from "./permissions";
+import { ApiKey } from "../apiKey/apiKey.model";
+import { hashToken } from "./session";
 
-export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+export interface AuthUser {
+    userId: string;
+    name: string;
+    email: string;
+    role: Role;
+    sessionId: string;
+    twoFactor?: boolean;
+    apiKeyId?: string;
+    permissions?: Permission[];
+}
+
+// Server-to-server callers send `x-api-key` instead of a bearer token. The key is
+// its own principal: userId is the key's id, never the account that created it.
+const authenticateApiKey = async (req: Request, res: Response, next: NextFunction, key: string) => {
+    const apiKey = await ApiKey.findOneAndUpdate(
+        {
+            keyHash: hashToken(key),
+            revokedAt: null,
+            $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+        },
+        { $inc: { requestCount: 1 }, lastUsedAt: new Date(), lastUsedIp: req.ip ?? null }
+    );
+
+    if (!apiKey) {
+        return res.status(401).json({
+            success: false,
+            message: "Invalid, revoked or expired API key"
+        })
+    }
+
+    req.user = {
+        userId: apiKey._id.toString(),
+        name: apiKey.name,
+        email: "",
+        role: "user",
+        sessionId: "",
+        apiKeyId: apiKey._id.toString(),
+        permissions: apiKey.permissions,
+    };
+    next();
+}
+
+export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
     try {
+        const apiKey = req.get("x-api-key");
+        if (apiKey) {
+            return await authenticateApiKey(req, res, next, apiKey);
+        }
+
         const token = req.headers.authorization?.split(" ")[1];
         if (!token) {
             return res.status(401).json({
@@ -10,7 +61,21 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
                 message: "Token not found"
             })
         }
-        const decoded = verifyToken(token);
+        const decoded = verifyToken(token) as AuthUser;
+
+        const session = decoded.sessionId ? await Session.findById(decoded.sessionId) : null;
+        if (!session || session.revokedAt) {
+            return res.status(401).json({
+                success: false,
+                message: "Session has been revoked"
+            })
+        }
+
+        // only write last seen once a minute, not on every request
+        if (Date.now() - session.lastSeenAt.getTime() > 60 * 1000) {
+            await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date(), ip: req.ip ?? null });
+        }
+
         req.user = decoded;
         next();
     } catch (error) {
@@ -19,4 +84,16 @@ export const authMiddleware = (req: Request, res: Response, next: NextFunction)
             message: "Invalid or expired token"
         })
     }
-}
\ No newline at end of file
+}
+
+// Must run after authMiddleware. For routes that act on the signed-in account
+// itself (profile, password, 2FA, sessions), which an API key has none of.
+export const requireUserSession = (req: Request, res: Response, next: NextFunction) => {
+    if (req.user?.apiKeyId) {
+        return res.status(403).json({
+            success: false,
+            message: "API keys cannot be used for this action"
+        })
+    }
+    next();
+}
@@ -0,0 +1,18 @@
+// Lowercased. Matched against the whole password and against the password with
+// trailing digits and symbols stripped, so "Password123!" is caught by "password".
+export const COMMON_PASSWORDS = new Set([
+    "123456", "12345678", "123456789", "1234567890", "password", "password1",
+    "qwerty", "qwertyuiop", "qwerty123", "abc123", "111111", "123123", "000000",
+    "iloveyou", "admin", "administrator", "welcome", "letmein", "monkey", "dragon",
+    "football", "baseball", "basketball", "soccer", "hockey", "master", "shadow",
+    "sunshine", "princess", "superman", "batman", "trustno1", "starwars", "whatever",
+    "freedom", "passw0rd", "p@ssw0rd", "p@ssword", "pa$$word", "login", "access",
+    "hello", "charlie", "donald", "michael", "jordan", "jennifer", "hunter", "ashley",
+    "buster", "thomas", "robert", "daniel", "jessica", "pepper", "ginger", "summer",
+    "winter", "spring", "autumn", "flower", "cookie", "cheese", "chocolate", "banana",
+    "computer", "internet", "secret", "changeme", "default", "guest", "user", "test",
+    "testing", "zaq12wsx", "1q2w3e4r", "1qaz2wsx", "asdfgh", "asdfghjkl", "zxcvbnm",
+    "qazwsx", "mustang", "harley", "ranger", "killer", "pakistan", "karachi", "lahore",
+    "india", "london", "newyork", "ecommerce", "shopping", "store", "welcome1",
+    "password123", "admin123", "root", "toor", "love", "lovely", "babygirl", "angel",
+]);
@@ -0,0 +1,23 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCsv, toCsvRow, unescapeCsvCell } from "./csv";
+
+describe("csv", () => {
+    it("quotes cells holding commas, quotes and line breaks", () => {
+        assert.equal(toCsvRow(["a,b", 'say "hi"', "two\nlines"]), '"a,b","say ""hi""","two\nlines"\r\n');
+        assert.deepEqual(parseCsv(toCsvRow(["a,b", 'say "hi"', "two\nlines"])), [["a,b", 'say "hi"', "two\nlines"]]);
+    });
+
+    it("defuses every formula prefix on export and restores it on import", () => {
+        const values = ["=1+1", "+1+1", "-2+3+cmd|' /C calc'!A0", "@SUM(A1)", "\tTAB"];
+
+        const [cells] = parseCsv(toCsvRow(values));
+
+        cells.forEach(cell => assert.ok(cell.startsWith("'"), `${cell} is escaped`));
+        assert.deepEqual(cells.map(unescapeCsvCell), values);
+    });
+
+    it("leaves numbers, negative ones included, as they are", () => {
+        assert.equal(toCsvRow([-5, 12.5, null]), "-5,12.5,\r\n");
+    });
+});
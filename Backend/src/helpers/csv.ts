@@ -0,0 +1,74 @@
+// Minimal RFC 4180 reading and writing: quoted fields, "" escapes, CRLF or LF.
+
+// Spreadsheet apps run cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// Records of the file, header row included, as arrays of raw cell text.
+export const parseCsv = (input: string) => {
+    const text = input.replace(/^\uFEFF/, "");
+    const rows: string[][] = [];
+
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error("Unterminated quoted field");
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+};
+
+// Undoes the quote toCsvRow puts in front of formula-like text.
+export const unescapeCsvCell = (value: string) => {
+    return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+};
+
+export const toCsvRow = (values: (string | number | null | undefined)[]) => {
+    return values
+        .map(value => {
+            if (value === null || value === undefined) {
+                return "";
+            }
+            let cell = String(value);
+            if (typeof value === "string" && FORMULA_PREFIX.test(cell)) {
+                cell = `'${cell}`;
+            }
+            return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(",") + "\r\n";
+};
@@ -1,4 +1,4 @@
-export const emailTemplates = (userName: string, verifyUrl?: string) => {
+export const emailTemplates = (userName: string, actionUrl?: string, newEmail?: string) => {
     const Welcome = `
     <!DOCTYPE html>
 <html lang="en">
@@ -91,7 +91,7 @@ Regards,<br>
 <img src="https://cdn-icons-png.flaticon.com/512/3081/3081559.png" alt="Ecommerce Logo" style="width: 140px; margin-bottom: 1.5rem;">
 
 <p style="text-align: left; font-size: 16px; line-height: 1.5; font-weight: bold;">
-Dear \${userName},
+Dear ${userName},
 </p>
 
 <p style="text-align: left; font-size: 16px; line-height: 1.5;">
@@ -103,7 +103,7 @@ You're almost ready to start shopping!
 To complete your registration, please verify your email address by clicking the button below.
 </p>
 
-<a href=${verifyUrl} target="_blank"
+<a href=${actionUrl} target="_blank"
 style="display: inline-block; margin: 1.5rem 0; padding: 0.75rem 1.75rem; background-color: #0a3d62; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 16px; font-weight: bold;">
 Verify Email Address
 </a>
@@ -123,11 +123,269 @@ Regards,<br>
 © 2024 Our Ecommerce Store. All rights reserved.
 </p>
 
+</div>
+</body>
+</html>
+`;
+
+    const ResetPassword = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Reset Your Password</title>
+</head>
+
+<body style="padding: 1.5rem; text-align: center; background-color: #f0f2f4; font-size: 18px; font-family: 'Google Sans', Roboto, Helvetica, Arial, sans-serif;">
+
+<div style="border-radius: 8px; width: 85%; max-width: 600px; min-width: 300px; background-color: #ffffff; color: #303030; padding: 2rem 2.5rem; margin: auto; margin-top: 2rem; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+<img src="https://cdn-icons-png.flaticon.com/512/3081/3081559.png" alt="Ecommerce Logo" style="width: 140px; margin-bottom: 1.5rem;">
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5; font-weight: bold;">
+Dear ${userName},
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+We received a request to reset the password of your <strong>Our Ecommerce Store</strong> account.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Click the button below to choose a new password. This link can only be used once and expires in 15 minutes.
+</p>
+
+<a href=${actionUrl} target="_blank"
+style="display: inline-block; margin: 1.5rem 0; padding: 0.75rem 1.75rem; background-color: #0a3d62; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 16px; font-weight: bold;">
+Reset Password
+</a>
+
+<p style="text-align: left; font-size: 15px; line-height: 1.5;">
+If you didn’t request a password reset, you can safely ignore this email. Your password will not change.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Regards,<br>
+<strong>Our Ecommerce Team</strong>
+</p>
+
+<hr style="height: 2px; background-color: #0a3d62; border: none; margin: 2rem -2.5rem;">
+
+<p style="text-align: center; font-size: 14px; line-height: 1.5;">
+© 2024 Our Ecommerce Store. All rights reserved.
+</p>
+
+</div>
+</body>
+</html>
+`;
+
+    const MagicLink = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Your Login Link</title>
+</head>
+
+<body style="padding: 1.5rem; text-align: center; background-color: #f0f2f4; font-size: 18px; font-family: 'Google Sans', Roboto, Helvetica, Arial, sans-serif;">
+
+<div style="border-radius: 8px; width: 85%; max-width: 600px; min-width: 300px; background-color: #ffffff; color: #303030; padding: 2rem 2.5rem; margin: auto; margin-top: 2rem; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+<img src="https://cdn-icons-png.flaticon.com/512/3081/3081559.png" alt="Ecommerce Logo" style="width: 140px; margin-bottom: 1.5rem;">
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5; font-weight: bold;">
+Dear ${userName},
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+We received a request to log in to your <strong>Our Ecommerce Store</strong> account without a password.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Click the button below to log in. This link can only be used once and expires in 15 minutes.
+</p>
+
+<a href=${actionUrl} target="_blank"
+style="display: inline-block; margin: 1.5rem 0; padding: 0.75rem 1.75rem; background-color: #0a3d62; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 16px; font-weight: bold;">
+Log In
+</a>
+
+<p style="text-align: left; font-size: 15px; line-height: 1.5;">
+If you didn’t request this link, you can safely ignore this email. Nobody can log in without it.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Regards,<br>
+<strong>Our Ecommerce Team</strong>
+</p>
+
+<hr style="height: 2px; background-color: #0a3d62; border: none; margin: 2rem -2.5rem;">
+
+<p style="text-align: center; font-size: 14px; line-height: 1.5;">
+© 2024 Our Ecommerce Store. All rights reserved.
+</p>
+
+</div>
+</body>
+</html>
+`;
+
+    const AccountLocked = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Your Account Has Been Locked</title>
+</head>
+
+<body style="padding: 1.5rem; text-align: center; background-color: #f0f2f4; font-size: 18px; font-family: 'Google Sans', Roboto, Helvetica, Arial, sans-serif;">
+
+<div style="border-radius: 8px; width: 85%; max-width: 600px; min-width: 300px; background-color: #ffffff; color: #303030; padding: 2rem 2.5rem; margin: auto; margin-top: 2rem; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+<img src="https://cdn-icons-png.flaticon.com/512/3081/3081559.png" alt="Ecommerce Logo" style="width: 140px; margin-bottom: 1.5rem;">
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5; font-weight: bold;">
+Dear ${userName},
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+We noticed several failed attempts to sign in to your <strong>Our Ecommerce Store</strong> account, so we have temporarily locked it to keep it safe.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+If this was you, click the button below to unlock your account right away. Otherwise the lock will lift on its own after a short while.
+</p>
+
+<a href=${actionUrl} target="_blank"
+style="display: inline-block; margin: 1.5rem 0; padding: 0.75rem 1.75rem; background-color: #0a3d62; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 16px; font-weight: bold;">
+Unlock My Account
+</a>
+
+<p style="text-align: left; font-size: 15px; line-height: 1.5;">
+If you didn’t try to sign in, we recommend resetting your password.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Regards,<br>
+<strong>Our Ecommerce Team</strong>
+</p>
+
+<hr style="height: 2px; background-color: #0a3d62; border: none; margin: 2rem -2.5rem;">
+
+<p style="text-align: center; font-size: 14px; line-height: 1.5;">
+© 2024 Our Ecommerce Store. All rights reserved.
+</p>
+
+</div>
+</body>
+</html>
+`;
+
+    const ConfirmEmailChange = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Confirm Your New Email</title>
+</head>
+
+<body style="padding: 1.5rem; text-align: center; background-color: #f0f2f4; font-size: 18px; font-family: 'Google Sans', Roboto, Helvetica, Arial, sans-serif;">
+
+<div style="border-radius: 8px; width: 85%; max-width: 600px; min-width: 300px; background-color: #ffffff; color: #303030; padding: 2rem 2.5rem; margin: auto; margin-top: 2rem; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+<img src="https://cdn-icons-png.flaticon.com/512/3081/3081559.png" alt="Ecommerce Logo" style="width: 140px; margin-bottom: 1.5rem;">
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5; font-weight: bold;">
+Dear ${userName},
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+You asked to use this address for your <strong>Our Ecommerce Store</strong> account.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Please confirm the change by clicking the button below. Until you do, your old email address stays in use.
+</p>
+
+<a href=${actionUrl} target="_blank"
+style="display: inline-block; margin: 1.5rem 0; padding: 0.75rem 1.75rem; background-color: #0a3d62; color: #ffffff; text-decoration: none; border-radius: 4px; font-size: 16px; font-weight: bold;">
+Confirm New Email
+</a>
+
+<p style="text-align: left; font-size: 15px; line-height: 1.5;">
+If you didn’t request this change, you can safely ignore this email.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Regards,<br>
+<strong>Our Ecommerce Team</strong>
+</p>
+
+<hr style="height: 2px; background-color: #0a3d62; border: none; margin: 2rem -2.5rem;">
+
+<p style="text-align: center; font-size: 14px; line-height: 1.5;">
+© 2024 Our Ecommerce Store. All rights reserved.
+</p>
+
+</div>
+</body>
+</html>
+`;
+
+    const EmailChangeRequested = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Email Change Requested</title>
+</head>
+
+<body style="padding: 1.5rem; text-align: center; background-color: #f0f2f4; font-size: 18px; font-family: 'Google Sans', Roboto, Helvetica, Arial, sans-serif;">
+
+<div style="border-radius: 8px; width: 85%; max-width: 600px; min-width: 300px; background-color: #ffffff; color: #303030; padding: 2rem 2.5rem; margin: auto; margin-top: 2rem; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+
+<img src="https://cdn-icons-png.flaticon.com/512/3081/3081559.png" alt="Ecommerce Logo" style="width: 140px; margin-bottom: 1.5rem;">
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5; font-weight: bold;">
+Dear ${userName},
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Someone asked to change the email address of your <strong>Our Ecommerce Store</strong> account to <strong>${newEmail}</strong>.
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+The change only takes effect once the new address is confirmed. Until then you keep signing in with this email.
+</p>
+
+<p style="text-align: left; font-size: 15px; line-height: 1.5;">
+If this wasn’t you, please reset your password right away and contact us at
+<a href="mailto:support@yourecommerce.com" style="color: #0a3d62; text-decoration: none;">
+support@yourecommerce.com
+</a>
+</p>
+
+<p style="text-align: left; font-size: 16px; line-height: 1.5;">
+Regards,<br>
+<strong>Our Ecommerce Team</strong>
+</p>
+
+<hr style="height: 2px; background-color: #0a3d62; border: none; margin: 2rem -2.5rem;">
+
+<p style="text-align: center; font-size: 14px; line-height: 1.5;">
+© 2024 Our Ecommerce Store. All rights reserved.
+</p>
+
 </div>
 </body>
 </html>
 `;
 
 
-    return { Welcome, VerifyEmail }
+    return { Welcome, VerifyEmail, ResetPassword, MagicLink, AccountLocked, ConfirmEmailChange, EmailChangeRequested }
 }
\ No newline at end of file
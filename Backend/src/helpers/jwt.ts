@@ -1,9 +1,20 @@
 import jwt from "jsonwebtoken";
 
-export const generateToken = (user: any) => {
-    return jwt.sign(user, process.env.JWT_SECRET! ?? '123', { expiresIn: "1h" });
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+export const REFRESH_TOKEN_TTL_SECONDS = Number(process.env.REFRESH_TOKEN_TTL_SECONDS) || 7 * 24 * 60 * 60;
+
+export const generateToken = (user: any, expiresIn: number = ACCESS_TOKEN_TTL_SECONDS) => {
+    return jwt.sign(user, process.env.JWT_SECRET! ?? '123', { expiresIn });
 };
 
 export const verifyToken = (token: string) => {
     return jwt.verify(token, process.env.JWT_SECRET! ?? '123');
 };
+
+export const generateRefreshToken = (payload: { sessionId: string; jti: string }) => {
+    return jwt.sign(payload, process.env.JWT_REFRESH_SECRET! ?? '456', { expiresIn: REFRESH_TOKEN_TTL_SECONDS });
+};
+
+export const verifyRefreshToken = (token: string) => {
+    return jwt.verify(token, process.env.JWT_REFRESH_SECRET! ?? '456') as { sessionId: string; jti: string };
+};
@@ -0,0 +1,22 @@
+import { Response } from "express";
+import { Types } from "mongoose";
+import { AuthUser } from "./auth";
+import { Permission, userHasPermission } from "./permissions";
+
+// Owners always pass; anyone else, API keys included, needs the admin permission
+// for that kind of resource.
+export const canAccess = (
+    user: AuthUser,
+    ownerId: Types.ObjectId | string | null | undefined,
+    permission: Permission
+) => {
+    const isOwner = !user.apiKeyId && !!ownerId && ownerId.toString() === user.userId;
+    return isOwner || userHasPermission(user, permission);
+};
+
+export const forbidden = (res: Response) => {
+    return res.status(403).json({
+        success: false,
+        message: "You do not have access to this resource",
+    });
+};
@@ -0,0 +1,40 @@
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import { COMMON_PASSWORDS } from "./commonPasswords";
+
+export const passwordPolicy = {
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+    requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== "false",
+    requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== "false",
+    requireSpecial: process.env.PASSWORD_REQUIRE_SPECIAL !== "false",
+    // how many previous passwords may not be reused
+    historySize: Number(process.env.PASSWORD_HISTORY_SIZE) || 5,
+};
+
+export const isCommonPassword = (password: string) => {
+    const lowered = password.toLowerCase();
+    return COMMON_PASSWORDS.has(lowered) || COMMON_PASSWORDS.has(lowered.replace(/[^a-z]+$/, ""));
+};
+
+let schema = z.string().min(passwordPolicy.minLength, `Password must be at least ${passwordPolicy.minLength} characters long`);
+if (passwordPolicy.requireUppercase) {
+    schema = schema.regex(/[A-Z]/, "Password must contain at least 1 capital letter");
+}
+if (passwordPolicy.requireNumber) {
+    schema = schema.regex(/[0-9]/, "Password must contain at least 1 number");
+}
+if (passwordPolicy.requireSpecial) {
+    schema = schema.regex(/[^A-Za-z0-9]/, "Password must contain at least 1 special character");
+}
+
+export const passwordSchema = schema.refine(password => !isCommonPassword(password), "Password is too common, please choose another one");
+
+// True when the password matches the current hash or one of the remembered ones.
+export const isPasswordReused = async (password: string, hashes: string[]) => {
+    for (const hash of hashes) {
+        if (await bcrypt.compare(password, hash)) {
+            return true;
+        }
+    }
+    return false;
+};
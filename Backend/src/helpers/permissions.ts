@@ -0,0 +1,97 @@
+import { NextFunction, Request, Response } from "express";
+import { twoFactor } from "../config/security";
+import { AuthUser } from "./auth";
+
+export type Role = "user" | "admin";
+
+export const PERMISSIONS = [
+    "profile:manage",
+    "addresses:manage",
+    "cart:manage",
+    "orders:place",
+    "payments:place",
+    "products:read",
+    "products:write",
+    "reviews:write",
+    "reviews:moderate",
+    "orders:manage",
+    "payments:manage",
+    "users:read",
+    "users:manage",
+    "audit:read",
+    "api-keys:manage",
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const customerPermissions: Permission[] = [
+    "profile:manage",
+    "addresses:manage",
+    "cart:manage",
+    "orders:place",
+    "payments:place",
+    "products:read",
+    "reviews:write",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+    user: customerPermissions,
+    admin: PERMISSIONS,
+};
+
+export const hasPermission = (role: Role | undefined, permission: Permission) => {
+    return !!role && (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+};
+
+// API keys carry their own permission list instead of inheriting a role's.
+export const userHasPermission = (user: AuthUser, permission: Permission) => {
+    return user.permissions ? user.permissions.includes(permission) : hasPermission(user.role, permission);
+};
+
+// Must run after authMiddleware. Passes when the caller holds every listed permission.
+export const requirePermission = (...permissions: Permission[]) => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return res.status(401).json({
+                success: false,
+                message: "Token not found"
+            })
+        }
+
+        if (!req.user.apiKeyId && twoFactor.requiredRoles.includes(req.user.role) && !req.user.twoFactor) {
+            return res.status(403).json({
+                success: false,
+                message: "Two-factor authentication is required for this account"
+            })
+        }
+
+        const missing = permissions.filter(permission => !userHasPermission(req.user!, permission));
+        if (missing.length > 0) {
+            return res.status(403).json({
+                success: false,
+                message: "You do not have permission to perform this action"
+            })
+        }
+
+        next();
+    }
+}
+
+// Lets callers act on their own user record (the `:param` route param) and
+// requires the permission for anyone else's. API keys always need the permission.
+export const requireSelfOrPermission = (permission: Permission, param: string = "id") => {
+    return (req: Request, res: Response, next: NextFunction) => {
+        if (!req.user) {
+            return res.status(401).json({
+                success: false,
+                message: "Token not found"
+            })
+        }
+
+        if (!req.user.apiKeyId && req.params[param] === req.user.userId) {
+            return next();
+        }
+
+        return requirePermission(permission)(req, res, next);
+    }
+}
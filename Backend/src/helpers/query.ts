@@ -0,0 +1,54 @@
+import { Types } from "mongoose";
+import { z } from "zod";
+
+// Query string values always arrive as strings, these parse them for list endpoints.
+export const pageQuery = z.coerce.number().int().min(1, "Page must be at least 1").default(1);
+
+export const limitQuery = z.coerce.number().int().min(1, "Limit must be at least 1").max(100, "Limit must be at most 100").default(20);
+
+export const booleanQuery = z.enum(["true", "false"]).transform(value => value === "true");
+
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Opaque keyset cursor: the sort value and _id of the last item of a page.
+export const encodeCursor = (value: unknown, id: Types.ObjectId | string) => {
+    return Buffer.from(JSON.stringify([value, id.toString()])).toString("base64url");
+};
+
+export type CursorValueType = "number" | "string" | "date";
+
+// The sort value comes from the client, so it must be a plain value of the sort
+// field's type; anything else (an object would act as a query operator) is rejected.
+const parseCursorValue = (value: unknown, type: CursorValueType) => {
+    if (type === "number") {
+        return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+    }
+    if (type === "string") {
+        return typeof value === "string" ? value : undefined;
+    }
+    if (typeof value !== "string") {
+        return undefined;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+export const decodeCursor = (cursor: string, type: CursorValueType) => {
+    try {
+        const [raw, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+        const value = parseCursorValue(raw, type);
+        if (value === undefined || typeof id !== "string" || !Types.ObjectId.isValid(id)) {
+            return null;
+        }
+        return { value, id: new Types.ObjectId(id) };
+    } catch {
+        return null;
+    }
+};
+
+export const buildPagination = (page: number, limit: number, total: number) => ({
+    page,
+    limit,
+    total,
+    totalPages: Math.ceil(total / limit),
+});
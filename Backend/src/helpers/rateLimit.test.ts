@@ -0,0 +1,76 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { rateLimit } from "./rateLimit";
+
+const hit = (limiter: ReturnType<typeof rateLimit>, ip: string) => {
+    const result = { passed: false, status: 0, retryAfter: undefined as unknown };
+    const res = {
+        setHeader: (name: string, value: unknown) => {
+            if (name === "Retry-After") result.retryAfter = value;
+        },
+        status: (code: number) => {
+            result.status = code;
+            return res;
+        },
+        json: () => res,
+    };
+
+    limiter({ ip } as Request, res as unknown as Response, () => {
+        result.passed = true;
+    });
+    return result;
+};
+
+describe("rateLimit", () => {
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("lets requests through up to the limit and rejects the rest with 429", () => {
+        const limiter = rateLimit({ windowMs: 60 * 1000, max: 3, message: "Too many" });
+
+        assert.deepEqual([1, 2, 3].map(() => hit(limiter, "203.0.113.7").passed), [true, true, true]);
+
+        const rejected = hit(limiter, "203.0.113.7");
+        assert.equal(rejected.passed, false);
+        assert.equal(rejected.status, 429);
+        assert.equal(rejected.retryAfter, 60);
+    });
+
+    it("counts every IP on its own", () => {
+        const limiter = rateLimit({ windowMs: 60 * 1000, max: 1, message: "Too many" });
+
+        assert.equal(hit(limiter, "203.0.113.7").passed, true);
+        assert.equal(hit(limiter, "203.0.113.7").passed, false);
+        assert.equal(hit(limiter, "198.51.100.2").passed, true);
+    });
+
+    it("starts a fresh window once the previous one has passed", () => {
+        let now = 1_000_000;
+        mock.method(Date, "now", () => now);
+
+        const limiter = rateLimit({ windowMs: 60 * 1000, max: 1, message: "Too many" });
+
+        assert.equal(hit(limiter, "203.0.113.7").passed, true);
+        now += 30 * 1000;
+        const rejected = hit(limiter, "203.0.113.7");
+        assert.equal(rejected.passed, false);
+        assert.equal(rejected.retryAfter, 30);
+
+        now += 30 * 1000;
+        assert.equal(hit(limiter, "203.0.113.7").passed, true);
+    });
+
+    it("keys on the custom key when one is given", () => {
+        const limiter = rateLimit({
+            windowMs: 60 * 1000,
+            max: 1,
+            message: "Too many",
+            key: req => String(req.ip).split(".").slice(0, 3).join("."),
+        });
+
+        assert.equal(hit(limiter, "203.0.113.7").passed, true);
+        assert.equal(hit(limiter, "203.0.113.8").passed, false);
+    });
+});
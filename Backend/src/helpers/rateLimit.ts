@@ -0,0 +1,43 @@
+import { NextFunction, Request, Response } from "express";
+
+interface RateLimitOptions {
+    windowMs: number;
+    max: number;
+    message: string;
+    key?: (req: Request) => string;
+}
+
+// In-memory fixed window limiter, keyed by client IP unless `key` says otherwise.
+export const rateLimit = ({ windowMs, max, message, key }: RateLimitOptions) => {
+    const hits = new Map<string, { count: number; resetAt: number }>();
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        const now = Date.now();
+
+        if (hits.size > 10000) {
+            hits.forEach((entry, entryKey) => {
+                if (entry.resetAt <= now) hits.delete(entryKey);
+            });
+        }
+
+        const hitKey = key ? key(req) : req.ip ?? "unknown";
+        let entry = hits.get(hitKey);
+
+        if (!entry || entry.resetAt <= now) {
+            entry = { count: 0, resetAt: now + windowMs };
+            hits.set(hitKey, entry);
+        }
+
+        entry.count++;
+
+        if (entry.count > max) {
+            res.setHeader("Retry-After", Math.ceil((entry.resetAt - now) / 1000));
+            return res.status(429).json({
+                success: false,
+                message
+            })
+        }
+
+        next();
+    }
+}
@@ -0,0 +1,61 @@
+import { escapeRegex } from "./query";
+
+const MAX_SEARCH_TERMS = 5;
+
+// Lowercased words of a search query, short noise words dropped.
+export const extractSearchTerms = (query: string) => {
+    return [...new Set(query.toLowerCase().split(/[^\p{L}\p{N}]+/u))]
+        .filter(term => term.length >= 2)
+        .slice(0, MAX_SEARCH_TERMS);
+};
+
+// Regex source matching the term with at most one character missing, extra,
+// wrong or swapped with its neighbour. Short terms are matched exactly, a typo
+// there changes the word entirely.
+export const buildFuzzyPattern = (term: string) => {
+    const chars = [...term].map(escapeRegex);
+
+    if (chars.length < 4) {
+        return chars.join("");
+    }
+
+    const variants = new Set<string>();
+    for (let i = 0; i <= chars.length; i++) {
+        const head = chars.slice(0, i).join("");
+        // a letter the query is missing
+        variants.add(`${head}.${chars.slice(i).join("")}`);
+        // a letter the query has wrong or too many
+        if (i < chars.length) {
+            variants.add(`${head}.?${chars.slice(i + 1).join("")}`);
+        }
+        // two neighbouring letters typed the wrong way round
+        if (i < chars.length - 1) {
+            variants.add(`${head}${chars[i + 1]}${chars[i]}${chars.slice(i + 2).join("")}`);
+        }
+    }
+    return `(?:${[...variants].join("|")})`;
+};
+
+const escapeHtml = (value: string) => {
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+};
+
+// HTML-escaped copy of `text` with every match of `patterns` wrapped in <mark>.
+export const highlight = (text: string | null | undefined, patterns: string[]) => {
+    if (!text) {
+        return null;
+    }
+    if (patterns.length === 0) {
+        return escapeHtml(text);
+    }
+
+    const matcher = new RegExp(`(${patterns.join("|")})`, "giu");
+    return text
+        .split(matcher)
+        .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+        .join("");
+};
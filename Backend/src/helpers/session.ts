@@ -0,0 +1,94 @@
+import crypto from "crypto";
+import { Types } from "mongoose";
+import { Session, SessionModel } from "../session/session.model";
+import { generateRefreshToken, generateToken, REFRESH_TOKEN_TTL_SECONDS } from "./jwt";
+
+interface TokenUser {
+    _id: Types.ObjectId;
+    name: string;
+    email: string;
+    role: "user" | "admin";
+}
+
+export const hashToken = (token: string) => {
+    return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+const signTokens = (user: TokenUser, session: { _id: Types.ObjectId; twoFactorVerified: boolean }, jti: string) => {
+    const accessToken = generateToken({
+        userId: user._id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        sessionId: session._id,
+        twoFactor: session.twoFactorVerified,
+    });
+    const refreshToken = generateRefreshToken({ sessionId: session._id.toString(), jti });
+
+    return { accessToken, refreshToken };
+};
+
+interface SessionOptions {
+    twoFactorVerified?: boolean;
+    userAgent?: string;
+    ip?: string;
+}
+
+// Starts a new refresh token family for a successful login.
+export const startSession = async (user: TokenUser, options: SessionOptions = {}) => {
+    const jti = crypto.randomBytes(32).toString("hex");
+
+    const session = await Session.create({
+        user: user._id,
+        tokenHash: hashToken(jti),
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+        twoFactorVerified: options.twoFactorVerified ?? false,
+        userAgent: options.userAgent ?? null,
+        ip: options.ip ?? null,
+    });
+
+    return signTokens(user, session, jti);
+};
+
+// Swaps the current refresh token of a family for a new one. Returns null when
+// the presented jti is not the current one, i.e. an already rotated token was reused.
+export const rotateSession = async (user: TokenUser, sessionId: string, jti: string) => {
+    const nextJti = crypto.randomBytes(32).toString("hex");
+
+    const session = await Session.findOneAndUpdate(
+        { _id: sessionId, tokenHash: hashToken(jti), revokedAt: null },
+        {
+            tokenHash: hashToken(nextJti),
+            expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000),
+            lastSeenAt: new Date(),
+        },
+        { new: true }
+    );
+
+    if (!session) {
+        return null;
+    }
+
+    return signTokens(user, session, nextJti);
+};
+
+export const revokeSession = async (
+    sessionId: string | Types.ObjectId,
+    reason: NonNullable<SessionModel["revokedReason"]>
+) => {
+    await Session.updateOne(
+        { _id: sessionId, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+};
+
+export const revokeAllSessions = async (
+    userId: string | Types.ObjectId,
+    reason: NonNullable<SessionModel["revokedReason"]>,
+    exceptSessionId?: string
+) => {
+    await Session.updateMany(
+        { user: userId, revokedAt: null, ...(exceptSessionId && { _id: { $ne: exceptSessionId } }) },
+        { revokedAt: new Date(), revokedReason: reason }
+    );
+};
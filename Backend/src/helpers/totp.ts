@@ -0,0 +1,83 @@
+import crypto from "crypto";
+
+// RFC 6238 TOTP with the defaults every authenticator app understands: SHA1, 6 digits, 30s steps.
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const DIGITS = 6;
+
+export const TOTP_STEP_SECONDS = 30;
+
+const base32Encode = (buffer: Buffer) => {
+    let bits = "";
+    buffer.forEach(byte => {
+        bits += byte.toString(2).padStart(8, "0");
+    });
+
+    let output = "";
+    for (let i = 0; i < bits.length; i += 5) {
+        output += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+    }
+    return output;
+};
+
+const base32Decode = (input: string) => {
+    let bits = "";
+    input.replace(/=+$/, "").toUpperCase().split("").forEach(char => {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error("Invalid base32 character");
+        }
+        bits += index.toString(2).padStart(5, "0");
+    });
+
+    const bytes: number[] = [];
+    for (let i = 0; i + 8 <= bits.length; i += 8) {
+        bytes.push(parseInt(bits.slice(i, i + 8), 2));
+    }
+    return Buffer.from(bytes);
+};
+
+const hotp = (key: Buffer, counter: number) => {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac("sha1", key).update(message).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+};
+
+const currentTotpStep = () => Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20));
+
+export const buildOtpauthUri = (secret: string, accountName: string, issuer: string) => {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: String(DIGITS),
+        period: String(TOTP_STEP_SECONDS),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+// Returns the time step the code belongs to (so callers can refuse replays), or null.
+// `window` allows for that many steps of clock drift either way.
+export const verifyTotp = (secret: string, code: string, window: number = 1) => {
+    if (!/^\d{6}$/.test(code)) {
+        return null;
+    }
+
+    const key = base32Decode(secret);
+    const step = currentTotpStep();
+
+    for (let drift = -window; drift <= window; drift++) {
+        const expected = hotp(key, step + drift);
+        if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+            return step + drift;
+        }
+    }
+    return null;
+};
@@ -2,16 +2,30 @@ import multer from "multer";
 import { CloudinaryStorage } from "multer-storage-cloudinary";
 import cloudinary from "../config/cloudinary";
 
-const storage = new CloudinaryStorage({
-    cloudinary,
-    params: {
-        folder: "products",
-        allowed_formats: ["jpg", "png", "jpeg", "webp"],
-    } as any,
-});
+const createUpload = (folder: string) => {
+    const storage = new CloudinaryStorage({
+        cloudinary,
+        params: {
+            folder,
+            allowed_formats: ["jpg", "png", "jpeg", "webp"],
+        } as any,
+    });
+
+    return multer({
+        storage,
+        limits: {
+            fileSize: 5 * 1024 * 1024,
+        },
+    });
+};
+
+export const upload = createUpload("products");
+
+export const avatarUpload = createUpload("avatars");
 
-export const upload = multer({
-    storage,
+// Kept in memory instead of Cloudinary, for files the server reads itself such as imports.
+export const fileUpload = multer({
+    storage: multer.memoryStorage(),
     limits: {
         fileSize: 5 * 1024 * 1024,
     },
@@ -4,6 +4,8 @@ import express from "express";
 import allAPIRoutes from "./routes/routes";
 import { connectDB } from "./config/db";
 import cors from "cors";
+import "./lib/cron";
+import { runMigrations } from "./lib/migrations";
 
 const PORT = process.env.PORT || 4000
 const app = express();
@@ -14,7 +16,9 @@ app.use(cors({
     credentials: true,
 }));
 
-connectDB();
+connectDB()
+    .then(runMigrations)
+    .catch(error => console.error("Migration error:", error));
 
 app.use('/api', allAPIRoutes)
 
@@ -1,5 +1,19 @@
 import cron from "node-cron";
+import { processDueErasures } from "./erasure";
+import { purgeExpiredArchives } from "../dataExport/dataExport.model";
+import { syncEffectivePrices } from "../product/product.model";
 
-cron.schedule('* * * * *', () => {
-    console.log('running a task every minute');
-});
\ No newline at end of file
+// hourly: erase accounts whose grace period has ended
+cron.schedule('0 * * * *', () => {
+    processDueErasures().catch(error => console.error("Erasure job error:", error));
+});
+
+// hourly: delete data export archives whose download window has passed
+cron.schedule('30 * * * *', () => {
+    purgeExpiredArchives().catch(error => console.error("Data export cleanup error:", error));
+});
+
+// every 5 minutes: move products whose sale just started or ended to their new price
+cron.schedule('*/5 * * * *', () => {
+    syncEffectivePrices().catch(error => console.error("Price sync error:", error));
+});
@@ -0,0 +1,110 @@
+import bcrypt from "bcrypt";
+import crypto from "crypto";
+import { Types } from "mongoose";
+import User from "../user/user.model";
+import { Address } from "../address/adress.model";
+import { Cart } from "../cart/cart.model";
+import { Wishlist } from "../wishlist/wishlist.model";
+import { Order } from "../order/order.model";
+import { DataExport, deleteArchive } from "../dataExport/dataExport.model";
+import { Session } from "../session/session.model";
+import { Review, syncProductRating } from "../review/review.model";
+import { recordAudit } from "../helpers/audit";
+import { destroyImages } from "./productImages";
+
+const ERASED = "[erased]";
+
+// Removes everything personal about a user. Orders and payments stay for
+// accounting, but lose any link to the person and where they live.
+export const eraseUser = async (userId: Types.ObjectId) => {
+    const user = await User.findById(userId).select("avatar");
+    if (user?.avatar) {
+        await destroyImages([user.avatar]);
+    }
+
+    await Promise.all([
+        Address.deleteMany({ user: userId }),
+        Cart.deleteOne({ user: userId }),
+        Wishlist.deleteOne({ user: userId }),
+        Session.deleteMany({ user: userId }),
+    ]);
+
+    const dataExports = await DataExport.find({ user: userId, archiveFileId: { $ne: null } }).select("+archiveFileId");
+    for (const dataExport of dataExports) {
+        await deleteArchive(dataExport.archiveFileId!);
+    }
+    await DataExport.updateMany({ user: userId }, { archiveFileId: null });
+
+    // reviews are the person's own words, so they go and the ratings they fed are recomputed
+    const reviewedProducts: Types.ObjectId[] = await Review.find({ user: userId }).distinct("product");
+    await Review.deleteMany({ user: userId });
+    await Review.updateMany({ helpfulVoters: userId }, { $pull: { helpfulVoters: userId }, $inc: { helpfulCount: -1 } });
+    for (const productId of reviewedProducts) {
+        await syncProductRating(productId);
+    }
+
+    await Order.updateMany(
+        { user: userId },
+        {
+            shippingAddress: null,
+            "shippingDetails.postalCode": ERASED,
+            "shippingDetails.addressLine": ERASED,
+        }
+    );
+
+    const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+
+    await User.updateOne(
+        { _id: userId },
+        {
+            $set: {
+                name: "Deleted User",
+                email: `deleted-${userId}@erased.invalid`,
+                password: unusablePassword,
+                isActive: false,
+                emailVerified: false,
+                twoFactorEnabled: false,
+                twoFactorRecoveryCodes: [],
+                passwordHistory: [],
+                numberVerified: false,
+                failedLoginAttempts: 0,
+                erasedAt: new Date(),
+                erasureScheduledFor: null,
+            },
+            $unset: {
+                number: 1,
+                avatar: 1,
+                lastLogin: 1,
+                emailVerificationTokenHash: 1,
+                emailVerificationExpires: 1,
+                emailVerificationSentAt: 1,
+                passwordResetTokenHash: 1,
+                passwordResetExpires: 1,
+                magicLinkTokenHash: 1,
+                magicLinkExpires: 1,
+                magicLinkSentAt: 1,
+                lockUntil: 1,
+                unlockTokenHash: 1,
+                twoFactorSecret: 1,
+                twoFactorLastUsedStep: 1,
+                pendingEmail: 1,
+                pendingEmailTokenHash: 1,
+                pendingEmailExpires: 1,
+            },
+        }
+    );
+};
+
+export const processDueErasures = async () => {
+    const dueUsers = await User.find({ erasureScheduledFor: { $lte: new Date() }, erasedAt: null }).select("_id");
+
+    for (const user of dueUsers) {
+        try {
+            await eraseUser(user._id);
+            await recordAudit({ action: "user.erased", targetType: "user", targetId: user._id });
+            console.log("Erased user " + user._id);
+        } catch (error) {
+            console.error("Erasure error for user " + user._id, error);
+        }
+    }
+};
@@ -0,0 +1,57 @@
+import { Types } from "mongoose";
+import Product from "../product/product.model";
+
+interface StockLine {
+    product: Types.ObjectId;
+    variant?: Types.ObjectId | null;
+    quantity: number;
+}
+
+// Takes the stock for every line or none of it. Each line is decremented only if
+// enough is left, so two orders racing for the last unit can't both get it.
+export const reserveStock = async (lines: StockLine[]) => {
+    const reserved: StockLine[] = [];
+
+    for (const line of lines) {
+        const result = line.variant
+            ? await Product.updateOne(
+                {
+                    _id: line.product,
+                    isActive: true,
+                    variants: { $elemMatch: { _id: line.variant, isActive: true, stock: { $gte: line.quantity } } },
+                },
+                { $inc: { "variants.$.stock": -line.quantity, stock: -line.quantity, soldCount: line.quantity } }
+            )
+            : await Product.updateOne(
+                { _id: line.product, isActive: true, stock: { $gte: line.quantity } },
+                { $inc: { stock: -line.quantity, soldCount: line.quantity } }
+            );
+
+        if (result.modifiedCount === 0) {
+            await releaseStock(reserved);
+            return false;
+        }
+        reserved.push(line);
+    }
+
+    return true;
+};
+
+// Puts reserved stock back, e.g. when an order is cancelled.
+export const releaseStock = async (lines: StockLine[]) => {
+    if (lines.length === 0) {
+        return;
+    }
+
+    await Product.bulkWrite(
+        lines.map(line => ({
+            updateOne: {
+                filter: { _id: line.product },
+                update: line.variant
+                    ? { $inc: { "variants.$[variant].stock": line.quantity, stock: line.quantity, soldCount: -line.quantity } }
+                    : { $inc: { stock: line.quantity, soldCount: -line.quantity } },
+                ...(line.variant && { arrayFilters: [{ "variant._id": line.variant }] }),
+            },
+        }))
+    );
+};
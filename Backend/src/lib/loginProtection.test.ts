@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { HydratedDocument, Types } from "mongoose";
+import * as smtp from "../config/smtp";
+import User, { UserModel } from "../user/user.model";
+import { AuditEvent } from "../audit/audit.model";
+import { hashToken } from "../helpers/session";
+import { loginProtection } from "../config/security";
+import { unlockAccount } from "../user/user.controllers";
+import { failedLoginDelay, registerFailedLogin } from "./loginProtection";
+
+const req = { ip: "203.0.113.7", get: () => undefined } as unknown as Request;
+
+const fakeUser = () => ({
+    _id: new Types.ObjectId(),
+    name: "Jane",
+    email: "jane@example.com",
+}) as unknown as HydratedDocument<UserModel>;
+
+const fakeResponse = () => {
+    const res = { statusCode: 0, body: undefined as any };
+    Object.assign(res, {
+        status: (code: number) => { res.statusCode = code; return res; },
+        json: (body: unknown) => { res.body = body; return res; },
+    });
+    return res as typeof res & Response;
+};
+
+describe("failedLoginDelay", () => {
+    it("doubles with every consecutive failure", () => {
+        assert.equal(failedLoginDelay(1), loginProtection.baseDelayMs);
+        assert.equal(failedLoginDelay(2), loginProtection.baseDelayMs * 2);
+        assert.equal(failedLoginDelay(3), loginProtection.baseDelayMs * 4);
+    });
+
+    it("never exceeds the configured maximum", () => {
+        assert.equal(failedLoginDelay(50), loginProtection.maxDelayMs);
+    });
+});
+
+describe("registerFailedLogin", () => {
+    let attempts: number;
+    let delays: number[];
+    let lockUpdates: Record<string, any>[];
+    let emails: { email: string; subject: string; template: string }[];
+
+    beforeEach(() => {
+        attempts = 0;
+        delays = [];
+        lockUpdates = [];
+        emails = [];
+
+        mock.method(User, "findByIdAndUpdate", async () => ({ failedLoginAttempts: ++attempts }));
+        mock.method(User, "updateOne", async (_filter: unknown, update: Record<string, any>) => {
+            lockUpdates.push(update);
+            attempts = update.failedLoginAttempts;
+            return { modifiedCount: 1 };
+        });
+        mock.method(AuditEvent, "create", async () => ({}));
+        mock.method(smtp, "sendEmail", async (mail: { email: string; subject: string; template: string }) => {
+            emails.push(mail);
+        });
+        // answer at once, but remember how long the caller was held back
+        mock.method(globalThis, "setTimeout", (callback: () => void, ms: number) => {
+            delays.push(ms);
+            callback();
+        });
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("slows down every failure before the limit without locking", async () => {
+        const user = fakeUser();
+
+        for (let i = 1; i < loginProtection.maxFailedAttempts; i++) {
+            assert.equal(await registerFailedLogin(req, user), false);
+        }
+
+        assert.deepEqual(delays, Array.from({ length: loginProtection.maxFailedAttempts - 1 }, (_, i) => failedLoginDelay(i + 1)));
+        assert.equal(lockUpdates.length, 0);
+        assert.equal(emails.length, 0);
+    });
+
+    it("locks the account on the failure that reaches the limit", async () => {
+        const user = fakeUser();
+        const before = Date.now();
+
+        let locked = false;
+        for (let i = 0; i < loginProtection.maxFailedAttempts; i++) {
+            locked = await registerFailedLogin(req, user);
+        }
+
+        assert.equal(locked, true);
+        assert.equal(lockUpdates.length, 1);
+
+        const [lock] = lockUpdates;
+        assert.equal(lock.failedLoginAttempts, 0);
+        assert.ok(lock.lockUntil.getTime() >= before + loginProtection.lockMinutes * 60 * 1000);
+        assert.match(lock.unlockTokenHash, /^[0-9a-f]{64}$/);
+    });
+
+    it("starts counting again after a lock", async () => {
+        const user = fakeUser();
+
+        for (let i = 0; i < loginProtection.maxFailedAttempts; i++) {
+            await registerFailedLogin(req, user);
+        }
+
+        assert.equal(await registerFailedLogin(req, user), false);
+        assert.equal(delays.at(-1), failedLoginDelay(1));
+    });
+
+    it("emails an unlock link that unlocks the account", async () => {
+        const user = fakeUser();
+
+        for (let i = 0; i < loginProtection.maxFailedAttempts; i++) {
+            await registerFailedLogin(req, user);
+        }
+
+        assert.equal(emails.length, 1);
+        assert.equal(emails[0].email, user.email);
+
+        const token = emails[0].template.match(/token=([0-9a-f]{64})/)?.[1];
+        assert.ok(token, "the email carries the unlock token");
+        assert.equal(hashToken(token), lockUpdates[0].unlockTokenHash);
+
+        const stored = {
+            failedLoginAttempts: 0,
+            lockUntil: lockUpdates[0].lockUntil as Date | null,
+            unlockTokenHash: lockUpdates[0].unlockTokenHash as string | null,
+            save: async () => undefined,
+        };
+        mock.method(User, "findOne", async (filter: { unlockTokenHash: string }) => {
+            return filter.unlockTokenHash === stored.unlockTokenHash ? stored : null;
+        });
+
+        const res = fakeResponse();
+        await unlockAccount({ params: { token } } as unknown as Request<{ token: string }>, res);
+
+        assert.equal(res.statusCode, 200);
+        assert.equal(stored.lockUntil, null);
+        assert.equal(stored.unlockTokenHash, null);
+
+        const reused = fakeResponse();
+        await unlockAccount({ params: { token } } as unknown as Request<{ token: string }>, reused);
+
+        assert.equal(reused.statusCode, 400);
+    });
+});
@@ -0,0 +1,53 @@
+import crypto from "crypto";
+import { Request } from "express";
+import { HydratedDocument } from "mongoose";
+import User, { UserModel } from "../user/user.model";
+import { hashToken } from "../helpers/session";
+import { sendEmail } from "../config/smtp";
+import { emailTemplates } from "../helpers/emailTempltes";
+import { buildFrontendUrl, frontendUrls } from "../config/urls";
+import { loginProtection } from "../config/security";
+import { recordAudit } from "../helpers/audit";
+
+// How long to hold back the answer to the n-th consecutive failure.
+export const failedLoginDelay = (attempts: number) => {
+    return Math.min(loginProtection.baseDelayMs * 2 ** (attempts - 1), loginProtection.maxDelayMs);
+};
+
+// Counts a failed login step, slows the answer down progressively and locks the
+// account once the limit is hit. Returns true when this failure locked it.
+export const registerFailedLogin = async (req: Request, user: HydratedDocument<UserModel>) => {
+    const updated = await User.findByIdAndUpdate(
+        user._id,
+        { $inc: { failedLoginAttempts: 1 } },
+        { new: true }
+    );
+    const attempts = updated?.failedLoginAttempts ?? 1;
+
+    await recordAudit({ req, action: "auth.login_failed", targetType: "user", targetId: user._id, metadata: { attempts } });
+
+    await new Promise(resolve => setTimeout(resolve, failedLoginDelay(attempts)));
+
+    if (attempts < loginProtection.maxFailedAttempts) {
+        return false;
+    }
+
+    const token = crypto.randomBytes(32).toString("hex");
+
+    await User.updateOne(
+        { _id: user._id },
+        {
+            failedLoginAttempts: 0,
+            lockUntil: new Date(Date.now() + loginProtection.lockMinutes * 60 * 1000),
+            unlockTokenHash: hashToken(token),
+        }
+    );
+
+    const unlockUrl = buildFrontendUrl(frontendUrls.unlockAccount, { token });
+
+    await sendEmail({ email: user.email, subject: "Your Account Has Been Locked", template: emailTemplates(user.name, unlockUrl).AccountLocked });
+
+    await recordAudit({ req, action: "auth.account_locked", targetType: "user", targetId: user._id });
+
+    return true;
+};
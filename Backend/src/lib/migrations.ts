@@ -0,0 +1,53 @@
+import User from "../user/user.model";
+import Product, { syncEffectivePrices } from "../product/product.model";
+
+// Accounts from before email verification existed have no emailVerified field.
+// Those whose old verification `token` had been cleared did verify, so they are
+// marked verified; the rest keep having to. Safe to run on every start.
+const backfillEmailVerified = async () => {
+    const verified = await User.collection.updateMany(
+        { emailVerified: { $exists: false }, token: null },
+        { $set: { emailVerified: true }, $unset: { token: "" } }
+    );
+    const unverified = await User.collection.updateMany(
+        { emailVerified: { $exists: false } },
+        { $set: { emailVerified: false }, $unset: { token: "" } }
+    );
+
+    if (verified.modifiedCount > 0 || unverified.modifiedCount > 0) {
+        console.log(`Backfilled emailVerified: ${verified.modifiedCount} verified, ${unverified.modifiedCount} unverified`);
+    }
+};
+
+// Products from before the "popular" sort have no soldCount. Lean reads don't
+// apply defaults, so they would hand out a null cursor value nothing can follow.
+const backfillSoldCount = async () => {
+    const result = await Product.collection.updateMany(
+        { soldCount: { $exists: false } },
+        { $set: { soldCount: 0 } }
+    );
+
+    if (result.modifiedCount > 0) {
+        console.log(`Backfilled soldCount on ${result.modifiedCount} products`);
+    }
+};
+
+// Products from before effectivePrice sell at their list price, unless a sale
+// is running, which the sync then picks up.
+const backfillEffectivePrice = async () => {
+    const result = await Product.collection.updateMany(
+        { effectivePrice: { $exists: false } },
+        [{ $set: { effectivePrice: "$price" } }]
+    );
+
+    if (result.modifiedCount > 0) {
+        console.log(`Backfilled effectivePrice on ${result.modifiedCount} products`);
+    }
+    await syncEffectivePrices();
+};
+
+export const runMigrations = async () => {
+    await backfillEmailVerified();
+    await backfillSoldCount();
+    await backfillEffectivePrice();
+};
@@ -0,0 +1,71 @@
+interface Sale {
+    price?: number | null;
+    percentOff?: number | null;
+    startsAt: Date;
+    endsAt?: Date | null;
+}
+
+interface PricedVariant {
+    price?: number | null;
+}
+
+interface PricedProduct {
+    price: number;
+    compareAtPrice?: number | null;
+    sales?: Sale[];
+    variants?: PricedVariant[];
+}
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+const isSaleActive = (sale: Sale, now: Date) => {
+    return new Date(sale.startsAt) <= now && (!sale.endsAt || new Date(sale.endsAt) > now);
+};
+
+// What the product, or one of its variants, costs at `now`. A sale either takes a
+// percentage off or caps the price at a fixed amount; when sales overlap the
+// cheapest wins. The compare-at price is what gets struck through next to it.
+export const resolvePrice = (product: PricedProduct, variant?: PricedVariant | null, now: Date = new Date()) => {
+    const basePrice = variant?.price ?? product.price;
+
+    let price = basePrice;
+    let saleEndsAt: Date | null = null;
+
+    for (const sale of product.sales ?? []) {
+        if (!isSaleActive(sale, now)) {
+            continue;
+        }
+
+        const salePrice = sale.percentOff != null
+            ? roundPrice(basePrice * (1 - sale.percentOff / 100))
+            : Math.min(sale.price ?? basePrice, basePrice);
+
+        if (salePrice < price) {
+            price = salePrice;
+            saleEndsAt = sale.endsAt ?? null;
+        }
+    }
+
+    // the product's compare-at price only fits variants sold at the product price
+    const listedCompareAt = variant?.price != null ? null : product.compareAtPrice ?? null;
+    const onSale = price < basePrice;
+    const compareAtPrice = listedCompareAt != null && listedCompareAt > price
+        ? listedCompareAt
+        : onSale ? basePrice : null;
+
+    return { price, compareAtPrice, onSale, saleEndsAt };
+};
+
+// A plain product object as the catalog returns it: resolved pricing added and,
+// unless asked for, the sale schedule left out so upcoming sales stay private.
+export const withPricing = <T extends PricedProduct>(product: T, options: { includeSales?: boolean } = {}) => {
+    const now = new Date();
+    const { sales, ...rest } = product;
+
+    return {
+        ...rest,
+        ...(options.includeSales && { sales }),
+        pricing: resolvePrice(product, null, now),
+        variants: product.variants?.map(variant => ({ ...variant, pricing: resolvePrice(product, variant, now) })),
+    };
+};
@@ -0,0 +1,35 @@
+import cloudinary from "../config/cloudinary";
+
+interface StoredImage {
+    url: string;
+    publicId?: string | null;
+}
+
+// Never throws: it runs after the change is saved, and a file Cloudinary failed
+// to delete is only wasted storage, not a reason to fail the request.
+export const destroyImages = async (images: { publicId?: string | null }[]) => {
+    const results = await Promise.allSettled(
+        images
+            .filter(image => image.publicId)
+            .map(image => cloudinary.uploader.destroy(image.publicId!))
+    );
+
+    results.forEach(result => {
+        if (result.status === "rejected") {
+            console.error("Image cleanup error:", result.reason);
+        }
+    });
+};
+
+// Replaces a list of images with the given urls. Urls already on the list keep
+// their id, Cloudinary file, alt text and primary flag; images left out are
+// returned as `removed` so their files can be destroyed once the change is saved.
+export const mergeImages = <T extends StoredImage>(current: T[], incoming: { url: string }[]) => {
+    const byUrl = new Map(current.map(image => [image.url, image]));
+    const images = incoming.map(image => byUrl.get(image.url) ?? { url: image.url });
+
+    const kept = new Set(incoming.map(image => image.url));
+    const removed = current.filter(image => !kept.has(image.url));
+
+    return { images, removed };
+};
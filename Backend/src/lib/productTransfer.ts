@@ -0,0 +1,265 @@
+import { Types } from "mongoose";
+import Product, { ProductModel } from "../product/product.model";
+import { createProductSchema, updateVariantSchema } from "../product/product.schema";
+import { Category } from "../category/category.model";
+import { parseCsv, unescapeCsvCell } from "../helpers/csv";
+import { destroyImages, mergeImages } from "./productImages";
+
+// One row per product, followed by one row per variant identified by its SKU.
+// Sales and variant options have their own endpoints and are not part of the file.
+export const PRODUCT_COLUMNS = ["sku", "title", "description", "price", "compareAtPrice", "stock", "categories", "images"] as const;
+
+export const MAX_IMPORT_ROWS = 5000;
+
+type ProductColumn = typeof PRODUCT_COLUMNS[number];
+
+export interface ProductRow {
+    sku: string | null;
+    title: string;
+    description: string | null;
+    price: number | null;
+    compareAtPrice: number | null;
+    stock: number;
+    // category slugs and image urls
+    categories: string[];
+    images: string[];
+}
+
+// A product read with .lean() and its categories populated with their slug.
+export type ExportedProduct = Omit<ProductModel, "categories"> & { categories: { slug: string }[] };
+
+interface ImportRow {
+    // 1-based position in the file, the CSV header being row 1
+    row: number;
+    data: Record<string, unknown>;
+}
+
+interface RowError {
+    row: number;
+    title?: string;
+    sku?: string;
+    errors: string[];
+}
+
+const NUMBER_COLUMNS: ProductColumn[] = ["price", "compareAtPrice", "stock"];
+const LIST_COLUMNS: ProductColumn[] = ["categories", "images"];
+
+const splitList = (value: string) => value.split("|").map(item => item.trim()).filter(Boolean);
+
+export const rowsFromCsv = (text: string): ImportRow[] => {
+    const [header, ...records] = parseCsv(text);
+
+    if (!header) {
+        throw new Error("The file is empty");
+    }
+
+    const columns = header.map(cell => cell.trim());
+    const unknown = columns.filter(column => !PRODUCT_COLUMNS.includes(column as ProductColumn));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown columns: ${unknown.join(", ")}`);
+    }
+    if (!columns.includes("title")) {
+        throw new Error("The title column is required");
+    }
+
+    const rows: ImportRow[] = [];
+    records.forEach((cells, index) => {
+        if (cells.every(cell => cell.trim() === "")) {
+            return;
+        }
+
+        const data: Record<string, unknown> = {};
+        columns.forEach((column, position) => {
+            const value = unescapeCsvCell((cells[position] ?? "").trim());
+            if (value === "") {
+                return;
+            }
+            if (NUMBER_COLUMNS.includes(column as ProductColumn)) {
+                data[column] = Number(value);
+            } else if (LIST_COLUMNS.includes(column as ProductColumn)) {
+                data[column] = splitList(value);
+            } else {
+                data[column] = value;
+            }
+        });
+        rows.push({ row: index + 2, data });
+    });
+
+    return rows;
+};
+
+export const rowsFromJson = (text: string): ImportRow[] => {
+    const parsed = JSON.parse(text);
+
+    if (!Array.isArray(parsed)) {
+        throw new Error("The file must contain an array of products");
+    }
+
+    return parsed.map((data, index) => ({
+        row: index + 1,
+        data: data !== null && typeof data === "object" ? data : {},
+    }));
+};
+
+const issuesToMessages = (issues: { path: PropertyKey[]; message: string }[]) => {
+    return issues.map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message));
+};
+
+// Images arrive as plain urls in CSV and either way in JSON.
+const toImages = (value: unknown) => {
+    if (!Array.isArray(value)) {
+        return value;
+    }
+    return value.map(image => (typeof image === "string" ? { url: image } : image));
+};
+
+// Validates and upserts every row on its own, so one bad row never stops the
+// rest. Products are matched by title, variant rows by SKU. With dryRun nothing
+// is written and the report says what would have happened.
+export const importProductRows = async (rows: ImportRow[], options: { dryRun: boolean }) => {
+    const report = { total: rows.length, created: 0, updated: 0, failed: 0, errors: [] as RowError[] };
+
+    const categories = await Category.find().select("slug").lean();
+    const categoryIds = new Map(categories.map(category => [category.slug, category._id]));
+
+    // titles created earlier in the same dry run, so a repeated title reports an update
+    const plannedTitles = new Set<string>();
+
+    for (const { row, data } of rows) {
+        const fail = (errors: string[]) => {
+            report.failed++;
+            report.errors.push({
+                row,
+                ...(typeof data.title === "string" && { title: data.title }),
+                ...(typeof data.sku === "string" && { sku: data.sku }),
+                errors,
+            });
+        };
+
+        try {
+            if (data.sku !== undefined && data.sku !== null && data.sku !== "") {
+                const sku = String(data.sku).trim().toUpperCase();
+                const parsed = updateVariantSchema.safeParse({
+                    price: data.price,
+                    stock: data.stock,
+                    images: toImages(data.images),
+                });
+
+                if (!parsed.success) {
+                    fail(issuesToMessages(parsed.error.issues));
+                    continue;
+                }
+
+                const product = await Product.findOne({ "variants.sku": sku });
+                const variant = product?.variants.find(variant => variant.sku === sku);
+
+                if (!product || !variant) {
+                    fail(["Unknown SKU, variants are created through the product options"]);
+                    continue;
+                }
+
+                if (!options.dryRun) {
+                    const { images, ...fields } = parsed.data;
+                    Object.assign(variant, fields);
+
+                    const merged = images && mergeImages(variant.images, images);
+                    if (merged) {
+                        product.set(`variants.${product.variants.indexOf(variant)}.images`, merged.images);
+                    }
+                    await product.save();
+
+                    if (merged) {
+                        await destroyImages(merged.removed);
+                    }
+                }
+                report.updated++;
+                continue;
+            }
+
+            // exported JSON spells missing values as null, the schema wants them left out
+            const fields = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== null));
+
+            const slugs = Array.isArray(fields.categories) ? fields.categories.map(String) : [];
+            const unknownSlugs = slugs.filter(slug => !categoryIds.has(slug.toLowerCase()));
+
+            if (unknownSlugs.length > 0) {
+                fail([`Unknown categories: ${unknownSlugs.join(", ")}`]);
+                continue;
+            }
+
+            const parsed = createProductSchema.safeParse({
+                ...fields,
+                categories: fields.categories === undefined
+                    ? undefined
+                    : slugs.map(slug => categoryIds.get(slug.toLowerCase()) as Types.ObjectId),
+                images: toImages(fields.images),
+            });
+
+            if (!parsed.success) {
+                fail(issuesToMessages(parsed.error.issues));
+                continue;
+            }
+
+            const existing = await Product.findOne({ title: parsed.data.title });
+
+            if (existing || plannedTitles.has(parsed.data.title)) {
+                if (!options.dryRun && existing) {
+                    const { images, ...fields } = parsed.data;
+                    existing.set(fields);
+
+                    const merged = images && mergeImages(existing.images, images);
+                    if (merged) {
+                        existing.set("images", merged.images);
+                    }
+                    await existing.save();
+
+                    if (merged) {
+                        await destroyImages(merged.removed);
+                    }
+                }
+                report.updated++;
+            } else {
+                if (options.dryRun) {
+                    plannedTitles.add(parsed.data.title);
+                } else {
+                    await Product.create(parsed.data);
+                }
+                report.created++;
+            }
+        } catch (error) {
+            fail([String(error)]);
+        }
+    }
+
+    return report;
+};
+
+// The rows a product exports as, in the same shape the import reads.
+export const productToRows = (product: ExportedProduct): ProductRow[] => {
+    const rows: ProductRow[] = [{
+        sku: null,
+        title: product.title,
+        description: product.description ?? null,
+        price: product.price,
+        compareAtPrice: product.compareAtPrice ?? null,
+        stock: product.stock,
+        categories: (product.categories ?? []).map(category => category.slug).filter(Boolean),
+        images: (product.images ?? []).map(image => image.url),
+    }];
+
+    for (const variant of product.variants ?? []) {
+        rows.push({
+            sku: variant.sku,
+            title: product.title,
+            description: null,
+            // blank means the variant costs the product price
+            price: variant.price ?? null,
+            compareAtPrice: null,
+            stock: variant.stock,
+            categories: [],
+            images: (variant.images ?? []).map(image => image.url),
+        });
+    }
+
+    return rows;
+};
@@ -1,31 +1,48 @@
 import { Request, Response } from "express";
-import { Types } from "mongoose";
-import { Cart } from "../cart/cart.model";
-import { Order } from "./order.model";
+import { HydratedDocument, Types } from "mongoose";
+import { Cart, CartItem } from "../cart/cart.model";
+import { ProductModel } from "../product/product.model";
+import { Order, OrderItem } from "./order.model";
+import { Address } from "../address/adress.model";
+import { releaseStock, reserveStock } from "../lib/inventory";
+import { resolvePrice } from "../lib/pricing";
+import { canAccess, forbidden } from "../helpers/ownership";
+import { recordAudit } from "../helpers/audit";
 
 export const createOrder = async (
     req: Request<
-        { userId: string },
+        {},
         {},
         { addressId: string; paymentMethod: "card" | "cash" | "paypal" | "other" }
     >,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
+        const userId = req.user!.userId;
         const { addressId, paymentMethod } = req.body;
 
-        if (
-            !Types.ObjectId.isValid(userId) ||
-            !Types.ObjectId.isValid(addressId)
-        ) {
+        if (!Types.ObjectId.isValid(addressId)) {
             return res.status(400).json({
                 success: false,
-                message: "Invalid user or address id",
+                message: "Invalid address id",
             });
         }
 
-        const cart = await Cart.findOne({ user: userId }).populate("items.product");
+        const address = await Address.findById(addressId);
+
+        if (!address) {
+            return res.status(404).json({
+                success: false,
+                message: "Address not found",
+            });
+        }
+
+        if (address.user.toString() !== userId) {
+            return forbidden(res);
+        }
+
+        const cart = await Cart.findOne({ user: userId })
+            .populate<{ items: (Omit<CartItem, "product"> & { product: HydratedDocument<ProductModel> | null })[] }>("items.product");
 
         if (!cart || cart.items.length === 0) {
             return res.status(400).json({
@@ -35,16 +52,43 @@ export const createOrder = async (
         }
 
         let totalAmount = 0;
+        const orderItems: OrderItem[] = [];
 
-        const orderItems = cart.items.map((item: any) => {
-            totalAmount += item.product.price * item.quantity;
+        for (const item of cart.items) {
+            const product = item.product;
+            const variant = item.variant
+                ? product?.variants.find(variant => variant._id.equals(item.variant!) && variant.isActive)
+                : null;
 
-            return {
-                product: item.product._id,
+            if (!product || !product.isActive || (item.variant && !variant)) {
+                return res.status(409).json({
+                    success: false,
+                    message: "Some items in your cart are no longer available",
+                });
+            }
+
+            // sales are resolved now, the order keeps the price that was actually charged
+            const { price } = resolvePrice(product, variant);
+            totalAmount += price * item.quantity;
+
+            orderItems.push({
+                product: product._id,
+                variant: variant?._id ?? null,
+                sku: variant?.sku ?? null,
+                options: variant?.options ?? null,
                 quantity: item.quantity,
-                price: item.product.price,
-            };
-        });
+                price,
+            });
+        }
+
+        const isReserved = await reserveStock(orderItems);
+
+        if (!isReserved) {
+            return res.status(409).json({
+                success: false,
+                message: "Some items in your cart are out of stock",
+            });
+        }
 
         const order = await Order.create({
             user: userId,
@@ -54,11 +98,28 @@ export const createOrder = async (
             paymentStatus: "pending",
             status: "pending",
             shippingAddress: addressId,
+            shippingDetails: {
+                country: address.country,
+                city: address.city,
+                postalCode: address.postalCode,
+                addressLine: address.addressLine,
+            },
+        }).catch(async error => {
+            await releaseStock(orderItems);
+            throw error;
         });
 
         cart.items = [];
         await cart.save();
 
+        await recordAudit({
+            req,
+            action: "order.created",
+            targetType: "order",
+            targetId: order._id,
+            after: { totalAmount: order.totalAmount, paymentMethod: order.paymentMethod },
+        });
+
         return res.status(201).json({
             success: true,
             message: "Order placed successfully",
@@ -73,11 +134,12 @@ export const createOrder = async (
 };
 
 export const getUserOrders = async (
-    req: Request<{ userId: string }>,
+    req: Request<{ userId?: string }>,
     res: Response
 ) => {
     try {
-        const { userId } = req.params;
+        // `/me` has no :userId, admins reach other users through `/user/:userId`
+        const userId = req.params.userId ?? req.user!.userId;
 
         if (!Types.ObjectId.isValid(userId)) {
             return res.status(400).json({
@@ -129,6 +191,10 @@ export const getOrderById = async (
             });
         }
 
+        if (!canAccess(req.user!, order.user, "orders:manage")) {
+            return forbidden(res);
+        }
+
         return res.status(200).json({
             success: true,
             message: "Order fetched successfully",
@@ -162,11 +228,7 @@ export const updateOrderStatus = async (
             });
         }
 
-        const order = await Order.findByIdAndUpdate(
-            orderId,
-            { status },
-            { new: true }
-        );
+        const order = await Order.findById(orderId);
 
         if (!order) {
             return res.status(404).json({
@@ -175,6 +237,31 @@ export const updateOrderStatus = async (
             });
         }
 
+        const previousStatus = order.status;
+
+        if (previousStatus === "cancelled" && status !== "cancelled") {
+            return res.status(400).json({
+                success: false,
+                message: "A cancelled order cannot be reopened",
+            });
+        }
+
+        order.status = status;
+        await order.save();
+
+        if (status === "cancelled" && previousStatus !== "cancelled") {
+            await releaseStock(order.items);
+        }
+
+        await recordAudit({
+            req,
+            action: "order.status_changed",
+            targetType: "order",
+            targetId: order._id,
+            before: { status: previousStatus },
+            after: { status: order.status },
+        });
+
         return res.status(200).json({
             success: true,
             message: "Order status updated successfully",
@@ -1,11 +1,22 @@
 import mongoose, { Types } from "mongoose";
 
-interface OrderItem {
+export interface OrderItem {
     product: Types.ObjectId;
+    variant?: Types.ObjectId | null;
+    // copied from the variant so the order still says what was bought if it changes later
+    sku?: string | null;
+    options?: Map<string, string> | null;
     quantity: number;
     price: number;
 }
 
+interface ShippingDetails {
+    country: string;
+    city: string;
+    postalCode: string;
+    addressLine: string;
+}
+
 interface OrderModel {
     user: Types.ObjectId;
     items: OrderItem[];
@@ -13,7 +24,8 @@ interface OrderModel {
     status: "pending" | "paid" | "shipped" | "completed" | "cancelled";
     paymentMethod: "card" | "cash" | "paypal" | "other";
     paymentStatus: "pending" | "completed" | "failed";
-    shippingAddress: Types.ObjectId;
+    shippingAddress?: Types.ObjectId | null;
+    shippingDetails?: ShippingDetails;
 }
 
 const orderSchema = new mongoose.Schema<OrderModel>(
@@ -22,6 +34,9 @@ const orderSchema = new mongoose.Schema<OrderModel>(
         items: [
             {
                 product: { type: mongoose.Schema.Types.ObjectId, ref: "Product", required: true },
+                variant: { type: mongoose.Schema.Types.ObjectId, default: null },
+                sku: { type: String, default: null },
+                options: { type: Map, of: String, default: null },
                 quantity: { type: Number, required: true, default: 1 },
                 price: { type: Number, required: true },
             },
@@ -42,10 +57,17 @@ const orderSchema = new mongoose.Schema<OrderModel>(
             enum: ["pending", "completed", "failed"],
             default: "pending",
         },
+        // cleared when the owner's account is erased, shippingDetails keeps what was shipped where
         shippingAddress: {
             type: mongoose.Schema.Types.ObjectId,
             ref: "Address",
-            required: true,
+            default: null,
+        },
+        shippingDetails: {
+            country: { type: String },
+            city: { type: String },
+            postalCode: { type: String },
+            addressLine: { type: String },
         },
     },
     { timestamps: true }
@@ -1,12 +1,14 @@
 import { Router } from "express";
 import { createOrder, getOrderById, getUserOrders, updateOrderStatus } from "./order.controllers";
+import { requirePermission } from "../helpers/permissions";
 
 
 const router = Router();
 
-router.post("/:userId", createOrder);
-router.get("/user/:userId", getUserOrders);
-router.get("/:orderId", getOrderById);
-router.put("/:orderId/status", updateOrderStatus);
+router.post("/me", requirePermission("orders:place"), createOrder);
+router.get("/me", requirePermission("orders:place"), getUserOrders);
+router.get("/user/:userId", requirePermission("orders:manage"), getUserOrders);
+router.get("/:orderId", requirePermission("orders:place"), getOrderById);
+router.put("/:orderId/status", requirePermission("orders:manage"), updateOrderStatus);
 
 export default router;
@@ -2,6 +2,8 @@ import { Request, Response } from "express";
 import { Types } from "mongoose";
 import { Payment } from "./payment.model";
 import { Order } from "../order/order.model";
+import { canAccess, forbidden } from "../helpers/ownership";
+import { recordAudit } from "../helpers/audit";
 
 export const createPayment = async (
     req: Request<
@@ -34,6 +36,10 @@ export const createPayment = async (
             });
         }
 
+        if (order.user.toString() !== req.user!.userId) {
+            return forbidden(res);
+        }
+
         const existingPayment = await Payment.findOne({ order: orderId });
         if (existingPayment) {
             return res.status(400).json({
@@ -53,6 +59,14 @@ export const createPayment = async (
             transactionId,
         });
 
+        await recordAudit({
+            req,
+            action: "payment.created",
+            targetType: "payment",
+            targetId: payment._id,
+            after: { order: order._id, amount: payment.amount, paymentMethod, status: payment.status },
+        });
+
         // If COD → mark order as paid immediately
         if (paymentStatus === "completed") {
             order.paymentStatus = "completed";
@@ -87,7 +101,7 @@ export const getPaymentByOrder = async (
             });
         }
 
-        const payment = await Payment.findOne({ order: orderId }).populate("order");
+        const payment = await Payment.findOne({ order: orderId }).populate<{ order: { user: Types.ObjectId } }>("order");
 
         if (!payment) {
             return res.status(404).json({
@@ -96,6 +110,10 @@ export const getPaymentByOrder = async (
             });
         }
 
+        if (!canAccess(req.user!, payment.order?.user, "payments:manage")) {
+            return forbidden(res);
+        }
+
         return res.status(200).json({
             success: true,
             message: "Payment fetched successfully",
@@ -109,6 +127,27 @@ export const getPaymentByOrder = async (
     }
 };
 
+export const getUserPayments = async (req: Request, res: Response) => {
+    try {
+        const orders = await Order.find({ user: req.user!.userId }).select("_id");
+
+        const payments = await Payment.find({ order: { $in: orders.map(order => order._id) } })
+            .populate("order")
+            .sort({ createdAt: -1 });
+
+        return res.status(200).json({
+            success: true,
+            message: "Payments fetched successfully",
+            data: payments,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
 export const updatePaymentStatus = async (
     req: Request<
         { paymentId: string },
@@ -137,6 +176,8 @@ export const updatePaymentStatus = async (
             });
         }
 
+        const before = { status: payment.status, transactionId: payment.transactionId };
+
         payment.status = status;
         if (transactionId) {
             payment.transactionId = transactionId;
@@ -144,6 +185,15 @@ export const updatePaymentStatus = async (
 
         await payment.save();
 
+        await recordAudit({
+            req,
+            action: "payment.status_changed",
+            targetType: "payment",
+            targetId: payment._id,
+            before,
+            after: { status: payment.status, transactionId: payment.transactionId },
+        });
+
         // sync order
         const order = await Order.findById(payment.order);
         if (order) {
@@ -2,13 +2,16 @@ import { Router } from "express";
 import {
     createPayment,
     getPaymentByOrder,
+    getUserPayments,
     updatePaymentStatus,
 } from "./payment.controllers";
+import { requirePermission } from "../helpers/permissions";
 
 const router = Router();
 
-router.post("/create", createPayment);
-router.get("/:orderId", getPaymentByOrder);
-router.put("/:paymentId/status", updatePaymentStatus);
+router.post("/create", requirePermission("payments:place"), createPayment);
+router.get("/me", requirePermission("payments:place"), getUserPayments);
+router.get("/:orderId", requirePermission("payments:place"), getPaymentByOrder);
+router.put("/:paymentId/status", requirePermission("payments:manage"), updatePaymentStatus);
 
 export default router;
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import Product from "./product.model";
+import User from "../user/user.model";
+import { runMigrations } from "../lib/migrations";
+import { getAllProducts } from "./product.controllers";
+
+type Doc = Record<string, any>;
+
+// Just enough of Mongo's matching and ordering for the listing queries: plain
+// equality (null also matching a missing field), $gt/$lt/$gte/$lte within one
+// type, $exists, $in and $or. Missing values sort lowest.
+const rank = (value: unknown) => {
+    if (value === undefined || value === null) return null;
+    if (value instanceof Types.ObjectId) return value.toHexString();
+    if (value instanceof Date) return value.getTime();
+    return value as number | string | boolean;
+};
+
+const compare = (a: unknown, b: unknown) => {
+    const left = rank(a);
+    const right = rank(b);
+    if (left === right) return 0;
+    if (left === null) return -1;
+    if (right === null) return 1;
+    return left < right ? -1 : 1;
+};
+
+const matchesValue = (actual: unknown, condition: unknown): boolean => {
+    const isOperators = condition !== null && typeof condition === "object"
+        && !(condition instanceof Types.ObjectId) && !(condition instanceof Date);
+
+    if (!isOperators) {
+        return condition === null ? actual === undefined || actual === null : compare(actual, condition) === 0;
+    }
+
+    return Object.entries(condition as Doc).every(([operator, operand]) => {
+        if (operator === "$exists") {
+            return (actual !== undefined) === operand;
+        }
+        if (operator === "$in") {
+            return (operand as unknown[]).some(item => matchesValue(actual, item));
+        }
+        // comparisons never cross types, so a missing value matches none of them
+        if (rank(actual) === null || typeof rank(actual) !== typeof rank(operand)) {
+            return false;
+        }
+        const order = compare(actual, operand);
+        return operator === "$gt" ? order > 0
+            : operator === "$lt" ? order < 0
+            : operator === "$gte" ? order >= 0
+            : operator === "$lte" ? order <= 0
+            : assert.fail(`unsupported operator ${operator}`);
+    });
+};
+
+const matches = (doc: Doc, filter: Doc): boolean => {
+    return Object.entries(filter).every(([key, condition]) => {
+        return key === "$or"
+            ? (condition as Doc[]).some(branch => matches(doc, branch))
+            : matchesValue(key.split(".").reduce<any>((value, part) => value?.[part], doc), condition);
+    });
+};
+
+const fakeQuery = (docs: Doc[], filter: Doc) => {
+    let result = docs.filter(doc => matches(doc, filter));
+    const query = {
+        sort: (order: Record<string, 1 | -1>) => {
+            result = [...result].sort((a, b) => {
+                for (const [field, direction] of Object.entries(order)) {
+                    const order = compare(a[field], b[field]);
+                    if (order !== 0) return order * direction;
+                }
+                return 0;
+            });
+            return query;
+        },
+        select: () => query,
+        skip: (count: number) => {
+            result = result.slice(count);
+            return query;
+        },
+        limit: (count: number) => {
+            result = result.slice(0, count);
+            return query;
+        },
+        lean: async () => result.map(doc => ({ ...doc })),
+    };
+    return query;
+};
+
+const listProducts = async (query: Record<string, string>) => {
+    const res = { statusCode: 0, body: undefined as any };
+    Object.assign(res, {
+        status: (code: number) => { res.statusCode = code; return res; },
+        json: (body: unknown) => { res.body = body; return res; },
+    });
+
+    const req = { query, user: { userId: "", role: "user" } };
+    await getAllProducts(req as unknown as Request<{}, {}, {}, any>, res as unknown as Response);
+    return res;
+};
+
+describe("getAllProducts cursor pagination", () => {
+    let docs: Doc[];
+
+    const product = (title: string, soldCount?: number) => ({
+        _id: new Types.ObjectId(),
+        title,
+        price: 10,
+        stock: 5,
+        isActive: true,
+        sales: [],
+        variants: [],
+        createdAt: new Date(),
+        ...(soldCount !== undefined && { soldCount }),
+    });
+
+    beforeEach(() => {
+        // the first product predates soldCount and was never given one
+        docs = [product("Legacy lamp"), product("Desk", 3), product("Chair", 0), product("Shelf", 7)];
+
+        mock.method(User.collection, "updateMany", async () => ({ modifiedCount: 0 }));
+        // the backfills: a $set of constants, or a pipeline copying other fields
+        mock.method(Product.collection, "updateMany", async (filter: Doc, update: { $set: Doc } | { $set: Doc }[]) => {
+            const targets = docs.filter(doc => matches(doc, filter));
+            const stages = Array.isArray(update) ? update : [update];
+            targets.forEach(doc => stages.forEach(stage => {
+                Object.entries(stage.$set).forEach(([field, value]) => {
+                    doc[field] = typeof value === "string" && value.startsWith("$") ? doc[value.slice(1)] : value;
+                });
+            }));
+            return { modifiedCount: targets.length };
+        });
+        mock.method(Product, "find", (filter: Doc) => fakeQuery(docs, filter));
+        mock.method(Product, "updateOne", async (filter: Doc, update: Doc) => {
+            docs.filter(doc => matches(doc, filter)).forEach(doc => Object.assign(doc, update));
+            return { modifiedCount: 1 };
+        });
+        mock.method(Product, "countDocuments", async (filter: Doc) => docs.filter(doc => matches(doc, filter)).length);
+    });
+
+    afterEach(() => {
+        mock.restoreAll();
+    });
+
+    it("pages through every product by popularity, legacy ones included", async () => {
+        await runMigrations();
+
+        const seen: string[] = [];
+        let cursor: string | null = null;
+
+        do {
+            const res = await listProducts({ sort: "popular", limit: "1", ...(cursor && { cursor }) });
+
+            assert.equal(res.statusCode, 200, res.body?.message);
+            seen.push(...res.body.data.map((item: Doc) => item.title));
+            cursor = res.body.pagination.nextCursor;
+        } while (cursor && seen.length <= docs.length);
+
+        // ties on soldCount fall back to the newest _id, and the legacy lamp is the oldest
+        assert.deepEqual(seen, ["Shelf", "Desk", "Chair", "Legacy lamp"]);
+    });
+
+    it("sorts and filters on the price a product currently sells for", async () => {
+        const sale = { percentOff: 75, startsAt: new Date(Date.now() - 60 * 1000), endsAt: null };
+        docs = [
+            { ...product("Armchair", 1), price: 40, sales: [sale] },
+            { ...product("Stool", 1), price: 12 },
+        ];
+
+        await runMigrations();
+
+        const sorted = await listProducts({ sort: "price_asc" });
+        assert.deepEqual(sorted.body.data.map((item: Doc) => item.title), ["Armchair", "Stool"]);
+        assert.equal(sorted.body.data[0].pricing.price, 10);
+
+        const cheap = await listProducts({ maxPrice: "11" });
+        assert.deepEqual(cheap.body.data.map((item: Doc) => item.title), ["Armchair"]);
+    });
+
+    it("rejects a cursor whose value is not a number for a numeric sort", async () => {
+        const cursor = Buffer.from(JSON.stringify([{ $ne: null }, docs[0]._id.toString()])).toString("base64url");
+
+        const res = await listProducts({ sort: "popular", cursor });
+
+        assert.equal(res.statusCode, 400);
+    });
+});
@@ -1,44 +1,163 @@
+import { once } from "events";
 import { Request, Response } from "express";
-import Product from "./product.model";
+import { QueryFilter, Types } from "mongoose";
+import Product, { ProductModel } from "./product.model";
 import {
     createProductSchema,
     updateProductSchema,
     UpdateProductInput,
+    ListProductsQuery,
+    listProductsQuerySchema,
+    ProductFilterQuery,
+    SearchProductsQuery,
+    searchProductsQuerySchema,
+    SuggestProductsQuery,
+    suggestProductsQuerySchema,
+    ProductOptionsInput,
+    productOptionsSchema,
+    UpdateVariantInput,
+    updateVariantSchema,
+    ImportProductsQuery,
+    importProductsQuerySchema,
+    ExportProductsQuery,
+    exportProductsQuerySchema,
+    ReorderImagesInput,
+    reorderImagesSchema,
+    UpdateImageInput,
+    updateImageSchema,
 } from "./product.schema";
+import { recordAudit } from "../helpers/audit";
+import { buildPagination, decodeCursor, encodeCursor, escapeRegex } from "../helpers/query";
+import { buildFuzzyPattern, extractSearchTerms, highlight } from "../helpers/search";
+import { userHasPermission } from "../helpers/permissions";
+import { withPricing } from "../lib/pricing";
+import { destroyImages, mergeImages } from "../lib/productImages";
+import { importProductRows, MAX_IMPORT_ROWS, PRODUCT_COLUMNS, productToRows, rowsFromCsv, rowsFromJson } from "../lib/productTransfer";
+import { toCsvRow } from "../helpers/csv";
+import { Category, findCategory, getCategorySubtreeIds } from "../category/category.model";
+
+const PRODUCT_SORTS = {
+    newest: { field: "createdAt", type: "date", direction: -1 },
+    // the price as currently sold, so items on sale sort where their shown price puts them
+    price_asc: { field: "effectivePrice", type: "number", direction: 1 },
+    price_desc: { field: "effectivePrice", type: "number", direction: -1 },
+    popular: { field: "soldCount", type: "number", direction: -1 },
+} as const;
+
+// Mongo filter for the listing facets, or null when the category does not exist.
+const buildProductFilter = async ({ minPrice, maxPrice, inStock, category }: ProductFilterQuery) => {
+    const filter: QueryFilter<ProductModel> = { isActive: true };
+
+    if (minPrice !== undefined || maxPrice !== undefined) {
+        filter.effectivePrice = {
+            ...(minPrice !== undefined && { $gte: minPrice }),
+            ...(maxPrice !== undefined && { $lte: maxPrice }),
+        };
+    }
+    if (inStock) filter.stock = { $gt: 0 };
+
+    if (category) {
+        const found = await findCategory(category);
+
+        if (!found) {
+            return null;
+        }
+
+        filter.categories = { $in: await getCategorySubtreeIds(found._id) };
+    }
+
+    return filter;
+};
+
+const MAX_VARIANTS = 100;
+
+// Every combination of option values, e.g. size S/M x color red/blue gives four.
+const combineOptions = (options: ProductOptionsInput["options"]) => {
+    return options.reduce<Record<string, string>[]>(
+        (combinations, option) =>
+            combinations.flatMap(combination => option.values.map(value => ({ ...combination, [option.name]: value }))),
+        [{}]
+    );
+};
+
+const variantKey = (names: string[], values: { get(name: string): string | undefined }) => {
+    return names.map(name => `${name}=${values.get(name)}`).join("|");
+};
+
+const buildSku = (title: string, productId: string, values: string[]) => {
+    const base = title.toUpperCase().replace(/[^A-Z0-9]+/g, "").slice(0, 12) || "ITEM";
+    const suffix = values.map(value => value.toUpperCase().replace(/[^A-Z0-9]+/g, "")).join("-");
+    // the id fragment keeps two products with similar titles from colliding
+    return `${base}-${productId.slice(-4).toUpperCase()}-${suffix}`;
+};
+
+const MAX_PRODUCT_IMAGES = 10;
+
+// multer-storage-cloudinary puts the url in `path` and the public id in `filename`
+const uploadedImages = (req: Request) => {
+    return req.files && Array.isArray(req.files)
+        ? req.files.map(file => ({ url: file.path, publicId: file.filename }))
+        : [];
+};
+
+const categoriesExist = async (ids: unknown[]) => {
+    const uniqueIds = [...new Set(ids.map(String))];
+    const count = await Category.countDocuments({ _id: { $in: uniqueIds } });
+    return count === uniqueIds.length;
+};
 
 export const createProduct = async (req: Request, res: Response) => {
+    // the files are already on Cloudinary by now, so a rejected product must not leave them behind
+    const images = uploadedImages(req);
+
     try {
+        const { categories } = req.body;
+
         const parsed = createProductSchema.safeParse({
             ...req.body,
             price: Number(req.body.price),
             stock: Number(req.body.stock),
+            compareAtPrice: req.body.compareAtPrice === undefined ? undefined : Number(req.body.compareAtPrice),
+            // multipart forms send a single value as a plain string
+            categories: categories === undefined || Array.isArray(categories) ? categories : [categories],
         });
 
         if (!parsed.success) {
+            await destroyImages(images);
             return res.status(400).json({
                 success: false,
                 errors: parsed.error.issues.map(e => e.message),
             });
         }
 
-        const images =
-            req.files && Array.isArray(req.files)
-                ? req.files.map((file: any) => ({
-                    url: file.path,
-                }))
-                : [];
+        if (parsed.data.categories && !(await categoriesExist(parsed.data.categories))) {
+            await destroyImages(images);
+            return res.status(400).json({
+                success: false,
+                message: "One or more categories do not exist",
+            });
+        }
 
         const product = await Product.create({
             ...parsed.data,
             images,
         });
 
+        await recordAudit({
+            req,
+            action: "product.created",
+            targetType: "product",
+            targetId: product._id,
+            after: { title: product.title, price: product.price, stock: product.stock },
+        });
+
         return res.status(201).json({
             success: true,
             message: "Product created successfully",
             data: product,
         });
     } catch (error) {
+        await destroyImages(images);
         return res.status(500).json({
             success: false,
             message: "Internal server error",
@@ -48,14 +167,198 @@ export const createProduct = async (req: Request, res: Response) => {
 };
 
 
-export const getAllProducts = async (req: Request, res: Response) => {
+export const getAllProducts = async (
+    req: Request<{}, {}, {}, ListProductsQuery>,
+    res: Response
+) => {
     try {
-        const products = await Product.find({ isActive: true });
+        const parsed = listProductsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { page, limit, cursor, sort } = parsed.data;
+
+        const filter = await buildProductFilter(parsed.data);
+
+        if (!filter) {
+            return res.status(404).json({
+                success: false,
+                message: "Category not found",
+            });
+        }
+
+        const { field, type, direction } = PRODUCT_SORTS[sort];
+        const comparison = direction === 1 ? "$gt" : "$lt";
+
+        // a cursor continues after the last product of the previous page instead of skipping
+        const pageFilter = { ...filter };
+        if (cursor) {
+            const decoded = decodeCursor(cursor, type);
+
+            if (!decoded) {
+                return res.status(400).json({
+                    success: false,
+                    message: "Invalid cursor",
+                });
+            }
+
+            pageFilter.$or = [
+                { [field]: { [comparison]: decoded.value } },
+                { [field]: decoded.value, _id: { [comparison]: decoded.id } },
+            ];
+        }
+
+        const [products, total] = await Promise.all([
+            Product.find(pageFilter)
+                .sort({ [field]: direction, _id: direction })
+                .skip(cursor ? 0 : (page - 1) * limit)
+                .limit(limit + 1)
+                .lean(),
+            Product.countDocuments(filter),
+        ]);
+
+        const hasMore = products.length > limit;
+        const items = hasMore ? products.slice(0, limit) : products;
+        const last = items[items.length - 1];
+        const nextCursor = hasMore && last ? encodeCursor(last[field as keyof typeof last], last._id) : null;
+        const includeSales = userHasPermission(req.user!, "products:write");
 
         return res.status(200).json({
             success: true,
             message: "Products fetched successfully",
-            data: products,
+            data: items.map(product => withPricing(product, { includeSales })),
+            pagination: cursor
+                ? { limit, total, nextCursor }
+                : { ...buildPagination(page, limit, total), nextCursor },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const searchProducts = async (
+    req: Request<{}, {}, {}, SearchProductsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = searchProductsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { q, page, limit } = parsed.data;
+
+        const filter = await buildProductFilter(parsed.data);
+
+        if (!filter) {
+            return res.status(404).json({
+                success: false,
+                message: "Category not found",
+            });
+        }
+
+        const terms = extractSearchTerms(q);
+
+        const textFilter = { ...filter, $text: { $search: q } };
+        let [products, total] = await Promise.all([
+            Product.find(textFilter, { score: { $meta: "textScore" } })
+                .sort({ score: { $meta: "textScore" }, soldCount: -1 })
+                .skip((page - 1) * limit)
+                .limit(limit)
+                .lean(),
+            Product.countDocuments(textFilter),
+        ]);
+        let patterns = terms.map(escapeRegex);
+
+        // the text index only knows whole (stemmed) words, so retry with typo tolerant patterns
+        const fuzzy = total === 0 && terms.length > 0;
+        if (fuzzy) {
+            patterns = terms.map(buildFuzzyPattern);
+
+            const fuzzyFilter = {
+                ...filter,
+                $and: patterns.map(pattern => {
+                    const regex = new RegExp(pattern, "i");
+                    return { $or: [{ title: regex }, { description: regex }] };
+                }),
+            };
+
+            [products, total] = await Promise.all([
+                Product.find(fuzzyFilter)
+                    .sort({ soldCount: -1, _id: -1 })
+                    .skip((page - 1) * limit)
+                    .limit(limit)
+                    .lean(),
+                Product.countDocuments(fuzzyFilter),
+            ]);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Products fetched successfully",
+            data: products.map(product => ({
+                ...withPricing(product, { includeSales: userHasPermission(req.user!, "products:write") }),
+                highlights: {
+                    title: highlight(product.title, patterns),
+                    description: highlight(product.description, patterns),
+                },
+            })),
+            fuzzy,
+            pagination: buildPagination(page, limit, total),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const suggestProducts = async (
+    req: Request<{}, {}, {}, SuggestProductsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = suggestProductsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { q, limit } = parsed.data;
+
+        // any word of the title may start with what has been typed so far
+        const prefix = new RegExp(`(?:^|\\s)${escapeRegex(q)}`, "i");
+
+        const products = await Product.find({ isActive: true, title: prefix })
+            .select("title")
+            .sort({ soldCount: -1 })
+            .limit(limit)
+            .lean();
+
+        return res.status(200).json({
+            success: true,
+            message: "Suggestions fetched successfully",
+            data: products.map(product => ({
+                _id: product._id,
+                title: product.title,
+                highlight: highlight(product.title, [`(?<=^|\\s)${escapeRegex(q)}`]),
+            })),
         });
     } catch (error) {
         return res.status(500).json({
@@ -70,7 +373,7 @@ export const getProductById = async (
     res: Response
 ) => {
     try {
-        const product = await Product.findById(req.params.id);
+        const product = await Product.findById(req.params.id).populate("categories", "name slug").lean();
 
         if (!product) {
             return res.status(404).json({
@@ -82,7 +385,7 @@ export const getProductById = async (
         return res.status(200).json({
             success: true,
             message: "Product fetched successfully",
-            data: product,
+            data: withPricing(product, { includeSales: userHasPermission(req.user!, "products:write") }),
         });
     } catch (error) {
         return res.status(500).json({
@@ -106,11 +409,21 @@ export const updateProduct = async (
             });
         }
 
-        const updated = await Product.findByIdAndUpdate(
-            req.params.id,
-            parsed.data,
-            { new: true }
-        );
+        if (parsed.data.images) {
+            return res.status(400).json({
+                success: false,
+                message: "Use the product image endpoints to change images",
+            });
+        }
+
+        if (parsed.data.categories && !(await categoriesExist(parsed.data.categories))) {
+            return res.status(400).json({
+                success: false,
+                message: "One or more categories do not exist",
+            });
+        }
+
+        const updated = await Product.findById(req.params.id);
 
         if (!updated) {
             return res.status(404).json({
@@ -119,6 +432,19 @@ export const updateProduct = async (
             });
         }
 
+        const before = updated.toObject();
+        updated.set(parsed.data);
+        await updated.save();
+
+        await recordAudit({
+            req,
+            action: "product.updated",
+            targetType: "product",
+            targetId: updated._id,
+            before,
+            after: parsed.data,
+        });
+
         return res.status(200).json({
             success: true,
             message: "Product updated successfully",
@@ -138,11 +464,7 @@ export const deleteProduct = async (
     res: Response
 ) => {
     try {
-        const deleted = await Product.findByIdAndUpdate(
-            req.params.id,
-            { isActive: false },
-            { new: true }
-        );
+        const deleted = await Product.findById(req.params.id);
 
         if (!deleted) {
             return res.status(404).json({
@@ -151,6 +473,20 @@ export const deleteProduct = async (
             });
         }
 
+        const images = [...deleted.images, ...deleted.variants.flatMap(variant => variant.images)];
+
+        // the product stays for order history, its files don't
+        deleted.isActive = false;
+        deleted.images = [];
+        deleted.variants.forEach(variant => {
+            variant.images = [];
+        });
+        await deleted.save();
+
+        await destroyImages(images);
+
+        await recordAudit({ req, action: "product.deleted", targetType: "product", targetId: deleted._id });
+
         return res.status(200).json({
             success: true,
             message: "Product deleted successfully",
@@ -162,3 +498,547 @@ export const deleteProduct = async (
         });
     }
 };
+
+export const setProductOptions = async (
+    req: Request<{ id: string }, {}, ProductOptionsInput>,
+    res: Response
+) => {
+    try {
+        const parsed = productOptionsSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { options } = parsed.data;
+        const combinations = options.length > 0 ? combineOptions(options) : [];
+
+        if (combinations.length > MAX_VARIANTS) {
+            return res.status(400).json({
+                success: false,
+                message: `These options would create ${combinations.length} variants, the limit is ${MAX_VARIANTS}`,
+            });
+        }
+
+        const product = await Product.findById(req.params.id);
+
+        if (!product) {
+            return res.status(404).json({
+                success: false,
+                message: "Product not found",
+            });
+        }
+
+        const names = options.map(option => option.name);
+        const before = { options: product.options, variants: product.variants.map(variant => variant.sku) };
+
+        // combinations that already existed keep their SKU, price and stock
+        const existing = new Map(product.variants.map(variant => [variantKey(names, variant.options), variant]));
+
+        product.options = options;
+        product.set("variants", combinations.map(combination => {
+            const values = new Map(Object.entries(combination));
+            const current = existing.get(variantKey(names, values));
+
+            return current ?? {
+                sku: buildSku(product.title, product._id.toString(), names.map(name => combination[name])),
+                options: values,
+                price: null,
+                stock: 0,
+                images: [],
+                isActive: true,
+            };
+        }));
+        await product.save();
+
+        await recordAudit({
+            req,
+            action: "product.options_changed",
+            targetType: "product",
+            targetId: product._id,
+            before,
+            after: { options: product.options, variants: product.variants.map(variant => variant.sku) },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Product options updated successfully",
+            data: product,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const updateVariant = async (
+    req: Request<{ id: string; variantId: string }, {}, UpdateVariantInput>,
+    res: Response
+) => {
+    try {
+        const parsed = updateVariantSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { id, variantId } = req.params;
+
+        if (!Types.ObjectId.isValid(id) || !Types.ObjectId.isValid(variantId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product or variant id",
+            });
+        }
+
+        const product = await Product.findById(id);
+        const variant = product?.variants.find(variant => variant._id.equals(variantId));
+
+        if (!product || !variant) {
+            return res.status(404).json({
+                success: false,
+                message: "Variant not found",
+            });
+        }
+
+        const { sku } = parsed.data;
+
+        if (sku && sku !== variant.sku && await Product.exists({ "variants.sku": sku })) {
+            return res.status(409).json({
+                success: false,
+                message: "A variant with this SKU already exists",
+            });
+        }
+
+        const before = { sku: variant.sku, price: variant.price, stock: variant.stock, isActive: variant.isActive };
+        const { images, ...fields } = parsed.data;
+        Object.assign(variant, fields);
+
+        const merged = images && mergeImages(variant.images, images);
+        if (merged) {
+            product.set(`variants.${product.variants.indexOf(variant)}.images`, merged.images);
+        }
+        await product.save();
+
+        if (merged) {
+            await destroyImages(merged.removed);
+        }
+
+        await recordAudit({
+            req,
+            action: "product.variant_updated",
+            targetType: "product",
+            targetId: product._id,
+            before,
+            after: parsed.data,
+            metadata: { variant: variant._id },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Variant updated successfully",
+            data: product,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const importProducts = async (
+    req: Request<{}, {}, {}, ImportProductsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = importProductsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (!req.file) {
+            return res.status(400).json({
+                success: false,
+                message: "Please upload a CSV or JSON file",
+            });
+        }
+
+        const format = parsed.data.format ?? (req.file.originalname.toLowerCase().endsWith(".json") ? "json" : "csv");
+        const dryRun = parsed.data.dryRun ?? false;
+
+        let rows;
+        try {
+            const text = req.file.buffer.toString("utf8");
+            rows = format === "json" ? rowsFromJson(text) : rowsFromCsv(text);
+        } catch (error) {
+            return res.status(400).json({
+                success: false,
+                message: "Could not read the file: " + (error instanceof Error ? error.message : error),
+            });
+        }
+
+        if (rows.length > MAX_IMPORT_ROWS) {
+            return res.status(400).json({
+                success: false,
+                message: `A file can hold at most ${MAX_IMPORT_ROWS} rows`,
+            });
+        }
+
+        const report = await importProductRows(rows, { dryRun });
+
+        if (!dryRun && report.created + report.updated > 0) {
+            await recordAudit({
+                req,
+                action: "product.imported",
+                targetType: "product",
+                metadata: { format, created: report.created, updated: report.updated, failed: report.failed },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: dryRun ? "Dry run completed, nothing was saved" : "Import completed",
+            data: { dryRun, ...report },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+// Streams the catalog one product at a time, so large catalogs never sit in memory.
+export const exportProducts = async (
+    req: Request<{}, {}, {}, ExportProductsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = exportProductsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { format } = parsed.data;
+
+        const cursor = Product.find({ isActive: true })
+            .populate<{ categories: { slug: string }[] }>("categories", "slug")
+            .sort({ _id: 1 })
+            .lean()
+            .cursor();
+
+        // a client leaving mid-download must not keep the cursor open
+        res.once("close", () => {
+            cursor.close().catch(error => console.error("Export cursor error:", error));
+        });
+
+        // waits out backpressure, but gives up as soon as the connection is gone
+        const write = async (chunk: string) => {
+            if (res.destroyed) {
+                throw new Error("Client disconnected");
+            }
+            if (!res.write(chunk)) {
+                const waiting = new AbortController();
+                await Promise.race([
+                    once(res, "drain", { signal: waiting.signal }),
+                    once(res, "close", { signal: waiting.signal }),
+                ]).finally(() => waiting.abort());
+            }
+        };
+
+        res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="products.${format}"`);
+
+        await write(format === "csv" ? toCsvRow([...PRODUCT_COLUMNS]) : "[");
+
+        let isFirst = true;
+        for await (const product of cursor) {
+            for (const row of productToRows(product)) {
+                if (format === "csv") {
+                    await write(toCsvRow(PRODUCT_COLUMNS.map(column => {
+                        const value = row[column];
+                        return Array.isArray(value) ? value.join("|") : value;
+                    })));
+                } else {
+                    await write((isFirst ? "" : ",") + JSON.stringify(row));
+                    isFirst = false;
+                }
+            }
+        }
+
+        if (format === "json") {
+            await write("]");
+        }
+        res.end();
+    } catch (error) {
+        // once streaming has started the status is gone, cutting the response short is all that's left
+        if (res.headersSent) {
+            res.destroy(error as Error);
+            return;
+        }
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const addProductImages = async (req: Request<{ id: string }>, res: Response) => {
+    // already uploaded by multer, so every way out short of success removes them again
+    const images = uploadedImages(req);
+
+    try {
+        if (images.length === 0) {
+            return res.status(400).json({
+                success: false,
+                message: "At least one image is required",
+            });
+        }
+
+        if (!Types.ObjectId.isValid(req.params.id)) {
+            await destroyImages(images);
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product id",
+            });
+        }
+
+        const product = await Product.findById(req.params.id);
+
+        if (!product) {
+            await destroyImages(images);
+            return res.status(404).json({
+                success: false,
+                message: "Product not found",
+            });
+        }
+
+        if (product.images.length + images.length > MAX_PRODUCT_IMAGES) {
+            await destroyImages(images);
+            return res.status(400).json({
+                success: false,
+                message: `A product can have at most ${MAX_PRODUCT_IMAGES} images`,
+            });
+        }
+
+        product.set("images", [...product.images, ...images]);
+        await product.save();
+
+        await recordAudit({
+            req,
+            action: "product.images_added",
+            targetType: "product",
+            targetId: product._id,
+            after: { images: images.map(image => image.url) },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Images added successfully",
+            data: product.images,
+        });
+    } catch (error) {
+        await destroyImages(images);
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const deleteProductImage = async (req: Request<{ id: string; imageId: string }>, res: Response) => {
+    try {
+        if (!Types.ObjectId.isValid(req.params.id) || !Types.ObjectId.isValid(req.params.imageId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product or image id",
+            });
+        }
+
+        const product = await Product.findById(req.params.id);
+        const image = product?.images.find(image => image._id.equals(req.params.imageId));
+
+        if (!product || !image) {
+            return res.status(404).json({
+                success: false,
+                message: "Image not found",
+            });
+        }
+
+        product.set("images", product.images.filter(other => !other._id.equals(image._id)));
+        await product.save();
+
+        await destroyImages([image]);
+
+        await recordAudit({
+            req,
+            action: "product.image_removed",
+            targetType: "product",
+            targetId: product._id,
+            before: { url: image.url },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Image removed successfully",
+            data: product.images,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const reorderProductImages = async (
+    req: Request<{ id: string }, {}, ReorderImagesInput>,
+    res: Response
+) => {
+    try {
+        const parsed = reorderImagesSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (!Types.ObjectId.isValid(req.params.id)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product id",
+            });
+        }
+
+        const product = await Product.findById(req.params.id);
+
+        if (!product) {
+            return res.status(404).json({
+                success: false,
+                message: "Product not found",
+            });
+        }
+
+        const imageIds = parsed.data.imageIds.map(String);
+        const currentIds = product.images.map(image => image._id.toString());
+
+        // a full permutation, so no image can be dropped by accident
+        const isPermutation = imageIds.length === currentIds.length
+            && new Set(imageIds).size === imageIds.length
+            && imageIds.every(id => currentIds.includes(id));
+
+        if (!isPermutation) {
+            return res.status(400).json({
+                success: false,
+                message: "Image ids must list every image of the product exactly once",
+            });
+        }
+
+        const before = currentIds;
+        product.set("images", imageIds.map(id => product.images.find(image => image._id.toString() === id)));
+        await product.save();
+
+        await recordAudit({
+            req,
+            action: "product.images_reordered",
+            targetType: "product",
+            targetId: product._id,
+            before: { order: before },
+            after: { order: imageIds },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Images reordered successfully",
+            data: product.images,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const updateProductImage = async (
+    req: Request<{ id: string; imageId: string }, {}, UpdateImageInput>,
+    res: Response
+) => {
+    try {
+        const parsed = updateImageSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (!Types.ObjectId.isValid(req.params.id) || !Types.ObjectId.isValid(req.params.imageId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product or image id",
+            });
+        }
+
+        const product = await Product.findById(req.params.id);
+        const image = product?.images.find(image => image._id.equals(req.params.imageId));
+
+        if (!product || !image) {
+            return res.status(404).json({
+                success: false,
+                message: "Image not found",
+            });
+        }
+
+        const { alt, isPrimary } = parsed.data;
+
+        if (alt !== undefined) {
+            image.alt = alt;
+        }
+        if (isPrimary) {
+            product.images.forEach(other => {
+                other.isPrimary = other._id.equals(image._id);
+            });
+        }
+        await product.save();
+
+        await recordAudit({
+            req,
+            action: "product.image_updated",
+            targetType: "product",
+            targetId: product._id,
+            after: { image: image._id, ...parsed.data },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Image updated successfully",
+            data: image,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
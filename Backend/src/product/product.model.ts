@@ -1,18 +1,67 @@
-import mongoose from "mongoose";
+import mongoose, { Types } from "mongoose";
+import { resolvePrice } from "../lib/pricing";
 
 interface ProductImage {
+    _id: Types.ObjectId;
     url: string;
+    // Cloudinary public id, null for images linked from elsewhere
+    publicId?: string | null;
+    alt?: string | null;
+    isPrimary: boolean;
 }
 
-interface ProductModel {
+// Either a fixed sale price or a percentage off, between startsAt and endsAt.
+interface ProductSale {
+    price?: number | null;
+    percentOff?: number | null;
+    startsAt: Date;
+    endsAt?: Date | null;
+}
+
+interface ProductOption {
+    name: string;
+    values: string[];
+}
+
+interface ProductVariant {
+    _id: Types.ObjectId;
+    sku: string;
+    // option name to chosen value, e.g. { size: "M", color: "red" }
+    options: Map<string, string>;
+    // null falls back to the product price
+    price?: number | null;
+    stock: number;
+    images: ProductImage[];
+    isActive: boolean;
+}
+
+export interface ProductModel {
     title: string;
     description?: string;
     price: number;
+    // the "was" price shown struck through, independent of any sale
+    compareAtPrice?: number | null;
+    sales: ProductSale[];
+    // what the product sells for right now, sale included; the catalog filters and sorts on it
+    effectivePrice: number;
     stock: number;
     images: ProductImage[];
+    options: ProductOption[];
+    variants: ProductVariant[];
+    categories: Types.ObjectId[];
+    soldCount: number;
+    ratingAverage: number;
+    ratingCount: number;
     isActive: boolean;
 }
 
+const productImageSchema = new mongoose.Schema<ProductImage>({
+    url: { type: String, required: true },
+    publicId: { type: String, default: null },
+    alt: { type: String, trim: true, default: null },
+    isPrimary: { type: Boolean, default: false },
+});
+
 const productSchema = new mongoose.Schema<ProductModel>(
     {
         title: {
@@ -33,17 +82,77 @@ const productSchema = new mongoose.Schema<ProductModel>(
             default: 0,
         },
 
+        compareAtPrice: {
+            type: Number,
+            default: null,
+        },
+
+        sales: [
+            {
+                _id: false,
+                price: { type: Number, default: null },
+                percentOff: { type: Number, default: null },
+                startsAt: { type: Date, required: true },
+                endsAt: { type: Date, default: null },
+            },
+        ],
+
+        // kept current by the pre-save hook and, as sales start and end, syncEffectivePrices
+        effectivePrice: {
+            type: Number,
+            default: 0,
+        },
+
         stock: {
             type: Number,
             default: 0,
         },
 
-        images: [
+        // in display order
+        images: [productImageSchema],
+
+        options: [
+            {
+                _id: false,
+                name: { type: String, required: true, trim: true, lowercase: true },
+                values: { type: [String], default: [] },
+            },
+        ],
+
+        variants: [
             {
-                url: { type: String, required: true },
+                sku: { type: String, required: true, trim: true, uppercase: true },
+                options: { type: Map, of: String, default: {} },
+                price: { type: Number, default: null },
+                stock: { type: Number, default: 0, min: 0 },
+                images: [productImageSchema],
+                isActive: { type: Boolean, default: true },
             },
         ],
 
+        categories: {
+            type: [mongoose.Schema.Types.ObjectId],
+            ref: "Category",
+            default: [],
+        },
+
+        // units ordered so far, drives the "popular" sort
+        soldCount: {
+            type: Number,
+            default: 0,
+        },
+
+        // copies of the approved reviews' figures, kept in sync by syncProductRating
+        ratingAverage: {
+            type: Number,
+            default: 0,
+        },
+
+        ratingCount: {
+            type: Number,
+            default: 0,
+        },
+
         isActive: {
             type: Boolean,
             default: true,
@@ -52,4 +161,54 @@ const productSchema = new mongoose.Schema<ProductModel>(
     { timestamps: true }
 );
 
-export default mongoose.model<ProductModel>("Product", productSchema);
+productSchema.index(
+    { "variants.sku": 1 },
+    { unique: true, partialFilterExpression: { "variants.sku": { $exists: true } } }
+);
+
+// a product with variants has no stock of its own, it is the total of what its variants have
+productSchema.pre("save", function () {
+    // the first image stands in as primary until one is picked
+    if (this.images.length > 0 && !this.images.some(image => image.isPrimary)) {
+        this.images[0].isPrimary = true;
+    }
+
+    if (this.variants.length > 0) {
+        this.stock = this.variants
+            .filter(variant => variant.isActive)
+            .reduce((total, variant) => total + variant.stock, 0);
+    }
+
+    this.effectivePrice = resolvePrice(this).price;
+});
+
+// one index per catalog sort, _id breaks ties so cursors stay stable
+productSchema.index({ isActive: 1, createdAt: -1, _id: -1 });
+productSchema.index({ isActive: 1, effectivePrice: 1, _id: 1 });
+productSchema.index({ isActive: 1, soldCount: -1, _id: -1 });
+productSchema.index({ isActive: 1, categories: 1, effectivePrice: 1 });
+productSchema.index(
+    { title: "text", description: "text" },
+    { name: "product_search", weights: { title: 10, description: 2 } }
+);
+
+const Product = mongoose.model<ProductModel>("Product", productSchema);
+
+// Sales start and end on their own schedule, without any save to trigger the
+// hook, so this brings effectivePrice up to date for every product with sales.
+export const syncEffectivePrices = async () => {
+    const now = new Date();
+    const products = await Product.find({ "sales.0": { $exists: true } })
+        .select("price compareAtPrice sales effectivePrice")
+        .lean();
+
+    for (const product of products) {
+        const { price } = resolvePrice(product, null, now);
+
+        if (price !== product.effectivePrice) {
+            await Product.updateOne({ _id: product._id }, { effectivePrice: price });
+        }
+    }
+};
+
+export default Product;
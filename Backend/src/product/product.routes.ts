@@ -2,18 +2,39 @@ import { Router } from "express";
 import {
     createProduct,
     getAllProducts,
+    searchProducts,
+    suggestProducts,
     getProductById,
     updateProduct,
     deleteProduct,
+    setProductOptions,
+    updateVariant,
+    importProducts,
+    exportProducts,
+    addProductImages,
+    deleteProductImage,
+    reorderProductImages,
+    updateProductImage,
 } from "./product.controllers";
-import { upload } from "../helpers/upload";
+import { fileUpload, upload } from "../helpers/upload";
+import { requirePermission } from "../helpers/permissions";
 
 const router = Router();
 
-router.post("/", upload.array("images", 5), createProduct);
+router.post("/", requirePermission("products:write"), upload.array("images", 5), createProduct);
 router.get("/", getAllProducts);
+router.get("/search", searchProducts);
+router.get("/export", requirePermission("products:write"), exportProducts);
+router.post("/import", requirePermission("products:write"), fileUpload.single("file"), importProducts);
+router.get("/search/suggest", suggestProducts);
 router.get("/:id", getProductById);
-router.put("/:id", updateProduct);
-router.delete("/:id", deleteProduct);
+router.put("/:id", requirePermission("products:write"), updateProduct);
+router.delete("/:id", requirePermission("products:write"), deleteProduct);
+router.put("/:id/options", requirePermission("products:write"), setProductOptions);
+router.put("/:id/variants/:variantId", requirePermission("products:write"), updateVariant);
+router.post("/:id/images", requirePermission("products:write"), upload.array("images", 5), addProductImages);
+router.put("/:id/images/order", requirePermission("products:write"), reorderProductImages);
+router.put("/:id/images/:imageId", requirePermission("products:write"), updateProductImage);
+router.delete("/:id/images/:imageId", requirePermission("products:write"), deleteProductImage);
 
 export default router;
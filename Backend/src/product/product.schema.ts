@@ -1,10 +1,29 @@
 import { z } from "zod";
+import { booleanQuery, limitQuery, pageQuery } from "../helpers/query";
+import { objectIdSchema } from "../address/address.schema";
+
+const saleSchema = z
+    .object({
+        price: z.number().min(0, "Sale price must be at least 0").nullable().optional(),
+        percentOff: z.number().gt(0, "Percentage off must be above 0").max(100, "Percentage off must be at most 100").nullable().optional(),
+        startsAt: z.coerce.date(),
+        endsAt: z.coerce.date().nullable().optional(),
+    })
+    .refine(sale => (sale.price != null) !== (sale.percentOff != null), {
+        message: "A sale needs either a price or a percentage off",
+    })
+    .refine(sale => !sale.endsAt || sale.endsAt > sale.startsAt, {
+        message: "A sale must end after it starts",
+    });
 
 export const createProductSchema = z.object({
     title: z.string().min(1),
     description: z.string().optional(),
     price: z.number().min(0),
+    compareAtPrice: z.number().min(0, "Compare-at price must be at least 0").nullable().optional(),
+    sales: z.array(saleSchema).max(10, "A product can have at most 10 scheduled sales").optional(),
     stock: z.number().min(0),
+    categories: z.array(objectIdSchema).optional(),
     images: z
         .array(
             z.object({
@@ -16,5 +35,102 @@ export const createProductSchema = z.object({
 
 export const updateProductSchema = createProductSchema.partial();
 
+export const reorderImagesSchema = z.object({
+    imageIds: z.array(objectIdSchema).min(1, "Image ids are required"),
+});
+
+export const updateImageSchema = z.object({
+    alt: z.string().trim().max(200, "Alt text must be at most 200 characters").nullable().optional(),
+    isPrimary: z.literal(true, "isPrimary can only be set to true, pick another image to change it").optional(),
+});
+
+export const productOptionsSchema = z.object({
+    options: z
+        .array(
+            z.object({
+                name: z.string().trim().toLowerCase().min(1, "Option name is required"),
+                values: z
+                    .array(z.string().trim().min(1, "Option values cannot be empty"))
+                    .min(1, "Each option needs at least one value")
+                    .refine(values => new Set(values).size === values.length, "Option values must be unique"),
+            })
+        )
+        .max(3, "A product can have at most 3 options")
+        .refine(options => new Set(options.map(option => option.name)).size === options.length, "Option names must be unique"),
+});
+
+export const updateVariantSchema = z.object({
+    sku: z.string().trim().toUpperCase().min(1, "SKU cannot be empty").optional(),
+    price: z.number().min(0).nullable().optional(),
+    stock: z.number().int("Stock must be a whole number").min(0).optional(),
+    images: z
+        .array(
+            z.object({
+                url: z.string().url(),
+            })
+        )
+        .optional(),
+    isActive: z.boolean().optional(),
+});
+
+// Facets shared by the product listing and search.
+const productFilterFields = {
+    minPrice: z.coerce.number().min(0, "Minimum price must be at least 0").optional(),
+    maxPrice: z.coerce.number().min(0, "Maximum price must be at least 0").optional(),
+    inStock: booleanQuery.optional(),
+    // id or slug, products of its subcategories are included
+    category: z.string().trim().min(1).optional(),
+};
+
+const isPriceRangeValid = (data: { minPrice?: number; maxPrice?: number }) => {
+    return data.minPrice === undefined || data.maxPrice === undefined || data.minPrice <= data.maxPrice;
+};
+
+const priceRangeError = { message: "Minimum price cannot be greater than maximum price" };
+
+export const listProductsQuerySchema = z
+    .object({
+        ...productFilterFields,
+        page: pageQuery,
+        limit: limitQuery,
+        cursor: z.string().min(1).optional(),
+        sort: z.enum(["newest", "price_asc", "price_desc", "popular"]).default("newest"),
+    })
+    .refine(isPriceRangeValid, priceRangeError);
+
+export const searchProductsQuerySchema = z
+    .object({
+        ...productFilterFields,
+        q: z.string().trim().min(1, "Search query is required").max(100, "Search query is too long"),
+        page: pageQuery,
+        limit: limitQuery,
+    })
+    .refine(isPriceRangeValid, priceRangeError);
+
+export const suggestProductsQuerySchema = z.object({
+    q: z.string().trim().min(1, "Search query is required").max(100, "Search query is too long"),
+    limit: z.coerce.number().int().min(1, "Limit must be at least 1").max(20, "Limit must be at most 20").default(8),
+});
+
+export const importProductsQuerySchema = z.object({
+    // taken from the file name when left out
+    format: z.enum(["csv", "json"]).optional(),
+    dryRun: booleanQuery.optional(),
+});
+
+export const exportProductsQuerySchema = z.object({
+    format: z.enum(["csv", "json"]).default("csv"),
+});
+
 export type CreateProductInput = z.infer<typeof createProductSchema>;
 export type UpdateProductInput = z.infer<typeof updateProductSchema>;
+export type ReorderImagesInput = z.infer<typeof reorderImagesSchema>;
+export type UpdateImageInput = z.infer<typeof updateImageSchema>;
+export type ProductOptionsInput = z.infer<typeof productOptionsSchema>;
+export type UpdateVariantInput = z.infer<typeof updateVariantSchema>;
+export type ListProductsQuery = z.input<typeof listProductsQuerySchema>;
+export type ProductFilterQuery = z.infer<z.ZodObject<typeof productFilterFields>>;
+export type SearchProductsQuery = z.input<typeof searchProductsQuerySchema>;
+export type SuggestProductsQuery = z.input<typeof suggestProductsQuerySchema>;
+export type ImportProductsQuery = z.input<typeof importProductsQuerySchema>;
+export type ExportProductsQuery = z.input<typeof exportProductsQuerySchema>;
@@ -0,0 +1,452 @@
+import { Request, Response } from "express";
+import mongoose, { Types } from "mongoose";
+import { Review, syncProductRating } from "./review.model";
+import {
+    CreateReviewInput,
+    createReviewSchema,
+    ListProductReviewsQuery,
+    listProductReviewsQuerySchema,
+    ListReviewsQuery,
+    listReviewsQuerySchema,
+    ModerateReviewInput,
+    moderateReviewSchema,
+    UpdateReviewInput,
+    updateReviewSchema,
+} from "./review.schema";
+import Product from "../product/product.model";
+import { Order } from "../order/order.model";
+import { buildPagination } from "../helpers/query";
+import { canAccess, forbidden } from "../helpers/ownership";
+import { recordAudit } from "../helpers/audit";
+
+const REVIEW_SORTS = {
+    newest: { createdAt: -1 },
+    helpful: { helpfulCount: -1, createdAt: -1 },
+    highest: { rating: -1, createdAt: -1 },
+    lowest: { rating: 1, createdAt: -1 },
+} as const;
+
+export const getProductReviews = async (
+    req: Request<{ productId: string }, {}, {}, ListProductReviewsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = listProductReviewsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { productId } = req.params;
+
+        if (!Types.ObjectId.isValid(productId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product id",
+            });
+        }
+
+        const { sort, page, limit } = parsed.data;
+        const filter = { product: productId, status: "approved" as const };
+
+        const [reviews, total] = await Promise.all([
+            Review.find(filter)
+                .populate("user", "name avatar")
+                .sort(REVIEW_SORTS[sort])
+                .skip((page - 1) * limit)
+                .limit(limit),
+            Review.countDocuments(filter),
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            message: "Reviews fetched successfully",
+            data: reviews,
+            pagination: buildPagination(page, limit, total),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const createReview = async (
+    req: Request<{ productId: string }, {}, CreateReviewInput>,
+    res: Response
+) => {
+    try {
+        const parsed = createReviewSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { productId } = req.params;
+        const userId = req.user!.userId;
+
+        if (!Types.ObjectId.isValid(productId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid product id",
+            });
+        }
+
+        if (!(await Product.exists({ _id: productId, isActive: true }))) {
+            return res.status(404).json({
+                success: false,
+                message: "Product not found",
+            });
+        }
+
+        // only people who actually received the product may review it
+        const hasPurchased = await Order.exists({ user: userId, status: "completed", "items.product": productId });
+
+        if (!hasPurchased) {
+            return res.status(403).json({
+                success: false,
+                message: "You can only review products from your completed orders",
+            });
+        }
+
+        let review;
+        try {
+            review = await Review.create({
+                ...parsed.data,
+                product: productId,
+                user: userId,
+            });
+        } catch (error) {
+            // one review per product and user is enforced by the unique index
+            if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+                return res.status(409).json({
+                    success: false,
+                    message: "You have already reviewed this product",
+                });
+            }
+            throw error;
+        }
+
+        return res.status(201).json({
+            success: true,
+            message: "Review submitted successfully and will be visible once approved",
+            data: review,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const updateReview = async (
+    req: Request<{ reviewId: string }, {}, UpdateReviewInput>,
+    res: Response
+) => {
+    try {
+        const parsed = updateReviewSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (!Types.ObjectId.isValid(req.params.reviewId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid review id",
+            });
+        }
+
+        const review = await Review.findById(req.params.reviewId);
+
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: "Review not found",
+            });
+        }
+
+        if (review.user.toString() !== req.user!.userId) {
+            return forbidden(res);
+        }
+
+        const wasApproved = review.status === "approved";
+
+        // an edited review goes back through moderation
+        review.set(parsed.data);
+        review.status = "pending";
+        review.moderatedBy = null;
+        review.moderatedAt = null;
+        review.moderationNote = null;
+        await review.save();
+
+        if (wasApproved) {
+            await syncProductRating(review.product);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Review updated successfully and will be visible once approved",
+            data: review,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const deleteReview = async (req: Request<{ reviewId: string }>, res: Response) => {
+    try {
+        if (!Types.ObjectId.isValid(req.params.reviewId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid review id",
+            });
+        }
+
+        const review = await Review.findById(req.params.reviewId);
+
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: "Review not found",
+            });
+        }
+
+        if (!canAccess(req.user!, review.user, "reviews:moderate")) {
+            return forbidden(res);
+        }
+
+        await review.deleteOne();
+
+        if (review.status === "approved") {
+            await syncProductRating(review.product);
+        }
+
+        if (review.user.toString() !== req.user!.userId) {
+            await recordAudit({
+                req,
+                action: "review.deleted",
+                targetType: "review",
+                targetId: review._id,
+                before: { product: review.product, user: review.user, rating: review.rating, status: review.status },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Review deleted successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const markReviewHelpful = async (req: Request<{ reviewId: string }>, res: Response) => {
+    try {
+        const { reviewId } = req.params;
+        const userId = req.user!.userId;
+
+        if (!Types.ObjectId.isValid(reviewId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid review id",
+            });
+        }
+
+        const review = await Review.findOne({ _id: reviewId, status: "approved" });
+
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: "Review not found",
+            });
+        }
+
+        if (review.user.toString() === userId) {
+            return res.status(400).json({
+                success: false,
+                message: "You cannot vote on your own review",
+            });
+        }
+
+        // the voter filter makes a repeated vote a no-op instead of a second count
+        const updated = await Review.findOneAndUpdate(
+            { _id: reviewId, helpfulVoters: { $ne: userId } },
+            { $addToSet: { helpfulVoters: userId }, $inc: { helpfulCount: 1 } },
+            { new: true }
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Review marked as helpful",
+            data: { helpfulCount: updated?.helpfulCount ?? review.helpfulCount },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const unmarkReviewHelpful = async (req: Request<{ reviewId: string }>, res: Response) => {
+    try {
+        const { reviewId } = req.params;
+        const userId = req.user!.userId;
+
+        if (!Types.ObjectId.isValid(reviewId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid review id",
+            });
+        }
+
+        const review = await Review.findOne({ _id: reviewId, status: "approved" });
+
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: "Review not found",
+            });
+        }
+
+        const updated = await Review.findOneAndUpdate(
+            { _id: reviewId, helpfulVoters: userId },
+            { $pull: { helpfulVoters: userId }, $inc: { helpfulCount: -1 } },
+            { new: true }
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Helpful vote removed",
+            data: { helpfulCount: updated?.helpfulCount ?? review.helpfulCount },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const getReviews = async (
+    req: Request<{}, {}, {}, ListReviewsQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = listReviewsQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { status, page, limit } = parsed.data;
+
+        // oldest first, so the moderation queue is worked through in order
+        const [reviews, total] = await Promise.all([
+            Review.find({ status })
+                .populate("user", "name email")
+                .populate("product", "title")
+                .sort({ createdAt: 1 })
+                .skip((page - 1) * limit)
+                .limit(limit),
+            Review.countDocuments({ status }),
+        ]);
+
+        return res.status(200).json({
+            success: true,
+            message: "Reviews fetched successfully",
+            data: reviews,
+            pagination: buildPagination(page, limit, total),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const moderateReview = async (
+    req: Request<{ reviewId: string }, {}, ModerateReviewInput>,
+    res: Response
+) => {
+    try {
+        const parsed = moderateReviewSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (!Types.ObjectId.isValid(req.params.reviewId)) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid review id",
+            });
+        }
+
+        const review = await Review.findById(req.params.reviewId);
+
+        if (!review) {
+            return res.status(404).json({
+                success: false,
+                message: "Review not found",
+            });
+        }
+
+        const previousStatus = review.status;
+
+        review.status = parsed.data.status;
+        review.moderationNote = parsed.data.note ?? null;
+        review.moderatedBy = new Types.ObjectId(req.user!.userId);
+        review.moderatedAt = new Date();
+        await review.save();
+
+        if (previousStatus === "approved" || review.status === "approved") {
+            await syncProductRating(review.product);
+        }
+
+        await recordAudit({
+            req,
+            action: "review.moderated",
+            targetType: "review",
+            targetId: review._id,
+            before: { status: previousStatus },
+            after: { status: review.status, note: review.moderationNote },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Review moderated successfully",
+            data: review,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
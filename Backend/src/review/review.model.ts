@@ -0,0 +1,98 @@
+import mongoose, { Types } from "mongoose";
+import Product from "../product/product.model";
+
+export interface ReviewModel {
+    product: Types.ObjectId;
+    user: Types.ObjectId;
+    rating: number;
+    title?: string | null;
+    body: string;
+    status: "pending" | "approved" | "rejected";
+    moderationNote?: string | null;
+    moderatedBy?: Types.ObjectId | null;
+    moderatedAt?: Date | null;
+    helpfulVoters: Types.ObjectId[];
+    helpfulCount: number;
+}
+
+const reviewSchema = new mongoose.Schema<ReviewModel>(
+    {
+        product: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "Product",
+            required: true,
+        },
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+        },
+        rating: {
+            type: Number,
+            required: true,
+            min: 1,
+            max: 5,
+        },
+        title: {
+            type: String,
+            trim: true,
+            default: null,
+        },
+        body: {
+            type: String,
+            required: true,
+            trim: true,
+        },
+        // only approved reviews are shown and counted in the product rating
+        status: {
+            type: String,
+            enum: ["pending", "approved", "rejected"],
+            default: "pending",
+        },
+        moderationNote: {
+            type: String,
+            default: null,
+        },
+        moderatedBy: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            default: null,
+        },
+        moderatedAt: {
+            type: Date,
+            default: null,
+        },
+        helpfulVoters: {
+            type: [mongoose.Schema.Types.ObjectId],
+            default: [],
+            select: false,
+        },
+        helpfulCount: {
+            type: Number,
+            default: 0,
+        },
+    },
+    { timestamps: true }
+);
+
+reviewSchema.index({ product: 1, user: 1 }, { unique: true });
+reviewSchema.index({ product: 1, status: 1, createdAt: -1 });
+reviewSchema.index({ status: 1, createdAt: 1 });
+
+export const Review = mongoose.model<ReviewModel>("Review", reviewSchema);
+
+// Recomputes the rating figures stored on the product from its approved reviews.
+export const syncProductRating = async (productId: Types.ObjectId) => {
+    const [stats] = await Review.aggregate<{ average: number; count: number }>([
+        { $match: { product: productId, status: "approved" } },
+        { $group: { _id: null, average: { $avg: "$rating" }, count: { $sum: 1 } } },
+    ]);
+
+    await Product.updateOne(
+        { _id: productId },
+        {
+            ratingAverage: stats ? Math.round(stats.average * 10) / 10 : 0,
+            ratingCount: stats?.count ?? 0,
+        }
+    );
+};
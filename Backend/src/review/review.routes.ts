@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+    createReview,
+    deleteReview,
+    getProductReviews,
+    getReviews,
+    markReviewHelpful,
+    moderateReview,
+    unmarkReviewHelpful,
+    updateReview,
+} from "./review.controllers";
+import { requirePermission } from "../helpers/permissions";
+
+const router = Router();
+
+router.get("/", requirePermission("reviews:moderate"), getReviews);
+router.get("/product/:productId", requirePermission("products:read"), getProductReviews);
+router.post("/product/:productId", requirePermission("reviews:write"), createReview);
+router.put("/:reviewId", requirePermission("reviews:write"), updateReview);
+router.delete("/:reviewId", requirePermission("reviews:write"), deleteReview);
+router.post("/:reviewId/helpful", requirePermission("reviews:write"), markReviewHelpful);
+router.delete("/:reviewId/helpful", requirePermission("reviews:write"), unmarkReviewHelpful);
+router.put("/:reviewId/moderation", requirePermission("reviews:moderate"), moderateReview);
+
+export default router;
@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { limitQuery, pageQuery } from "../helpers/query";
+
+export const createReviewSchema = z.object({
+    rating: z.number().int("Rating must be a whole number").min(1, "Rating must be at least 1").max(5, "Rating must be at most 5"),
+    title: z.string().trim().max(120, "Title must be at most 120 characters").nullable().optional(),
+    body: z.string().trim().min(10, "Review must be at least 10 characters").max(5000, "Review must be at most 5000 characters"),
+});
+
+export const updateReviewSchema = createReviewSchema.partial();
+
+export const listProductReviewsQuerySchema = z.object({
+    sort: z.enum(["newest", "helpful", "highest", "lowest"]).default("newest"),
+    page: pageQuery,
+    limit: limitQuery,
+});
+
+export const listReviewsQuerySchema = z.object({
+    status: z.enum(["pending", "approved", "rejected"]).default("pending"),
+    page: pageQuery,
+    limit: limitQuery,
+});
+
+export const moderateReviewSchema = z.object({
+    status: z.enum(["approved", "rejected"], "Status must be approved or rejected"),
+    note: z.string().trim().max(500, "Note must be at most 500 characters").optional(),
+});
+
+export type CreateReviewInput = z.infer<typeof createReviewSchema>;
+export type UpdateReviewInput = z.infer<typeof updateReviewSchema>;
+export type ListProductReviewsQuery = z.input<typeof listProductReviewsQuerySchema>;
+export type ListReviewsQuery = z.input<typeof listReviewsQuerySchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
@@ -1,20 +1,33 @@
 import { Router } from "express";
-import { authMiddleware } from "../helpers/auth";
+import { authMiddleware, requireUserSession } from "../helpers/auth";
+import { requirePermission } from "../helpers/permissions";
 import userRoutes from "../user/user.routes";
 import addressRoutes from "../address/address.routes";
 import cartRoutes from "../cart/cart.routes";
 import orderRoutes from '../order/order.routes'
 import paymentRoutes from '../payment/payment.routes'
 import productRoutes from '../product/product.routes'
+import categoryRoutes from '../category/category.routes'
+import reviewRoutes from '../review/review.routes'
+import sessionRoutes from '../session/session.routes'
+import dataExportRoutes from '../dataExport/dataExport.routes'
+import auditRoutes from '../audit/audit.routes'
+import apiKeyRoutes from '../apiKey/apiKey.routes'
 
 const router = Router();
 
 router.use('/users', userRoutes);
-router.use('/addresses', authMiddleware, addressRoutes);
-router.use('/cart', authMiddleware, cartRoutes);
+router.use('/addresses', authMiddleware, requirePermission("addresses:manage"), addressRoutes);
+router.use('/cart', authMiddleware, requirePermission("cart:manage"), cartRoutes);
 router.use('/order', authMiddleware, orderRoutes)
 router.use('/payment', authMiddleware, paymentRoutes)
-router.use('/product', authMiddleware, productRoutes)
+router.use('/product', authMiddleware, requirePermission("products:read"), productRoutes)
+router.use('/categories', authMiddleware, requirePermission("products:read"), categoryRoutes)
+router.use('/reviews', authMiddleware, reviewRoutes)
+router.use('/sessions', authMiddleware, requireUserSession, requirePermission("profile:manage"), sessionRoutes)
+router.use('/data-exports', authMiddleware, requirePermission("profile:manage"), dataExportRoutes)
+router.use('/audit-events', authMiddleware, requirePermission("audit:read"), auditRoutes)
+router.use('/api-keys', authMiddleware, requireUserSession, requirePermission("api-keys:manage"), apiKeyRoutes)
 
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { Request, Response } from "express";
+import { Types } from "mongoose";
+import { Session } from "./session.model";
+
+export const getMySessions = async (req: Request, res: Response) => {
+    try {
+        const sessions = await Session.find({
+            user: req.user!.userId,
+            revokedAt: null,
+            expiresAt: { $gt: new Date() },
+        })
+            .select("userAgent ip lastSeenAt createdAt")
+            .sort({ lastSeenAt: -1 });
+
+        return res.status(200).json({
+            success: true,
+            message: "Sessions fetched successfully",
+            data: sessions.map(session => ({
+                ...session.toObject(),
+                current: session._id.toString() === req.user!.sessionId,
+            })),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const revokeMySession = async (
+    req: Request<{ sessionId: string }>,
+    res: Response
+) => {
+    try {
+        const { sessionId } = req.params;
+
+        if (!Types.ObjectId.isValid(sessionId)) {
+            return res.status(400).json({ success: false, message: "Invalid session id" });
+        }
+
+        // scoped to the caller, someone else's session id is simply not found
+        const session = await Session.findOneAndUpdate(
+            { _id: sessionId, user: req.user!.userId, revokedAt: null },
+            { revokedAt: new Date(), revokedReason: "revoked" },
+            { new: true }
+        );
+
+        if (!session) {
+            return res.status(404).json({ success: false, message: "Session not found" });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Session revoked successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const revokeOtherSessions = async (req: Request, res: Response) => {
+    try {
+        const result = await Session.updateMany(
+            { user: req.user!.userId, _id: { $ne: req.user!.sessionId }, revokedAt: null },
+            { revokedAt: new Date(), revokedReason: "revoked" }
+        );
+
+        return res.status(200).json({
+            success: true,
+            message: "Other sessions revoked successfully",
+            data: { revoked: result.modifiedCount },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
@@ -0,0 +1,65 @@
+import mongoose, { Types } from "mongoose";
+
+export interface SessionModel {
+    user: Types.ObjectId;
+    tokenHash: string;
+    expiresAt: Date;
+    twoFactorVerified: boolean;
+    userAgent?: string | null;
+    ip?: string | null;
+    lastSeenAt: Date;
+    revokedAt?: Date | null;
+    revokedReason?: "logout" | "reuse" | "inactive" | "password_reset" | "password_changed" | "revoked" | null;
+}
+
+const sessionSchema = new mongoose.Schema<SessionModel>(
+    {
+        user: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: "User",
+            required: true,
+            index: true,
+        },
+        // sha256 of the jti of the only refresh token of this family that may still be used
+        tokenHash: {
+            type: String,
+            required: true,
+            select: false,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        twoFactorVerified: {
+            type: Boolean,
+            default: false,
+        },
+        userAgent: {
+            type: String,
+            default: null,
+        },
+        ip: {
+            type: String,
+            default: null,
+        },
+        lastSeenAt: {
+            type: Date,
+            default: Date.now,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+        revokedReason: {
+            type: String,
+            enum: ["logout", "reuse", "inactive", "password_reset", "password_changed", "revoked", null],
+            default: null,
+        },
+    },
+    { timestamps: true }
+);
+
+// let mongo drop families once their refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<SessionModel>("Session", sessionSchema);
@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { getMySessions, revokeMySession, revokeOtherSessions } from "./session.controllers";
+
+const router = Router();
+
+router.get("/me", getMySessions);
+router.delete("/me/others", revokeOtherSessions);
+router.delete("/me/:sessionId", revokeMySession);
+
+export default router;
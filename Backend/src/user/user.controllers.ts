@@ -1,10 +1,131 @@
 import { Request, Response } from "express";
-import { LoginUserInput, loginUserSchema, RegisterUserInput, registerUserSchema } from "./user.schema";
-import User from "./user.model";
+import mongoose, { HydratedDocument } from "mongoose";
+import {
+    ForgotPasswordInput,
+    forgotPasswordSchema,
+    LoginUserInput,
+    loginUserSchema,
+    MagicLinkLoginInput,
+    magicLinkLoginSchema,
+    RequestMagicLinkInput,
+    requestMagicLinkSchema,
+    RefreshTokenInput,
+    refreshTokenSchema,
+    RegisterUserInput,
+    registerUserSchema,
+    UpdateUserInput,
+    updateUserSchema,
+    ChangeEmailInput,
+    changeEmailSchema,
+    ChangePasswordInput,
+    changePasswordSchema,
+    ListUsersQuery,
+    listUsersQuerySchema,
+    UpdateRoleInput,
+    updateRoleSchema,
+    RequestErasureInput,
+    requestErasureSchema,
+    ResendVerificationInput,
+    resendVerificationSchema,
+    ResetPasswordInput,
+    resetPasswordSchema,
+    DisableTwoFactorInput,
+    disableTwoFactorSchema,
+    TwoFactorCodeInput,
+    twoFactorCodeSchema,
+    TwoFactorLoginInput,
+    twoFactorLoginSchema,
+} from "./user.schema";
+import User, { UserModel } from "./user.model";
 import bcrypt from "bcrypt";
-import { generateToken, verifyToken } from "../helpers/jwt";
+import crypto from "crypto";
+import { generateToken, verifyRefreshToken, verifyToken } from "../helpers/jwt";
+import { hashToken, revokeAllSessions, revokeSession, rotateSession, startSession } from "../helpers/session";
 import { sendEmail } from "../config/smtp";
 import { emailTemplates } from "../helpers/emailTempltes";
+import { buildFrontendUrl, frontendUrls } from "../config/urls";
+import { twoFactor } from "../config/security";
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from "../helpers/totp";
+import { Session } from "../session/session.model";
+import { Order } from "../order/order.model";
+import { buildPagination, escapeRegex } from "../helpers/query";
+import { recordAudit } from "../helpers/audit";
+import { isPasswordReused, passwordPolicy } from "../helpers/passwordPolicy";
+import { registerFailedLogin } from "../lib/loginProtection";
+import { destroyImages } from "../lib/productImages";
+
+const RESET_PASSWORD_TTL_MINUTES = 15;
+const MAGIC_LINK_TTL_MINUTES = 15;
+const MAGIC_LINK_COOLDOWN_SECONDS = 60;
+const EMAIL_VERIFICATION_TTL_HOURS = 24;
+const EMAIL_CHANGE_TTL_HOURS = 24;
+const ERASURE_GRACE_DAYS = Number(process.env.ERASURE_GRACE_DAYS) || 14;
+const RESEND_VERIFICATION_COOLDOWN_SECONDS = 60;
+
+const sendVerificationEmail = async (user: HydratedDocument<UserModel>) => {
+    const token = crypto.randomBytes(32).toString("hex");
+
+    user.emailVerificationTokenHash = hashToken(token);
+    user.emailVerificationExpires = new Date(Date.now() + EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+    user.emailVerificationSentAt = new Date();
+    await user.save();
+
+    const verifyUrl = buildFrontendUrl(frontendUrls.verifyEmail, { token });
+
+    await sendEmail({ email: user.email, subject: "Verify Your Email", template: emailTemplates(user.name, verifyUrl).VerifyEmail });
+};
+
+// Swaps in a new password and remembers the old hash. Returns false, leaving the
+// user untouched, when the password is the current one or a recently used one.
+// `user` must have been loaded with +password +passwordHistory.
+const setNewPassword = async (user: HydratedDocument<UserModel>, password: string) => {
+    const previousHashes = [user.password, ...(user.passwordHistory ?? [])].slice(0, passwordPolicy.historySize + 1);
+
+    if (await isPasswordReused(password, previousHashes)) {
+        return false;
+    }
+
+    user.passwordHistory = previousHashes.slice(0, passwordPolicy.historySize);
+    user.password = await bcrypt.hash(password, 10);
+    return true;
+};
+
+// Everything a login does once the caller has fully proven who they are.
+const completeLogin = async (
+    req: Request,
+    user: HydratedDocument<UserModel>,
+    options: { twoFactorVerified?: boolean } = {}
+) => {
+    const tokens = await startSession(user, {
+        ...options,
+        userAgent: req.get("user-agent"),
+        ip: req.ip,
+    });
+
+    await sendEmail({ email: user.email, subject: "Welcome to Ecommerce! Get started with your account", template: emailTemplates(user.name).Welcome });
+
+    await user.updateOne({ lastLogin: new Date() });
+
+    await recordAudit({
+        req,
+        actor: user._id,
+        action: "auth.login",
+        targetType: "user",
+        targetId: user._id,
+        metadata: { twoFactor: options.twoFactorVerified ?? false },
+    });
+
+    return tokens;
+};
+
+const normalizeRecoveryCode = (code: string) => code.replace(/[\s-]/g, "").toLowerCase();
+
+const generateRecoveryCodes = () => {
+    return Array.from({ length: twoFactor.recoveryCodeCount }, () => {
+        const raw = crypto.randomBytes(5).toString("hex");
+        return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+};
 
 export const registerUser = async (
     req: Request<{}, {}, RegisterUserInput>,
@@ -33,17 +154,13 @@ export const registerUser = async (
 
         const hashedPassword = await bcrypt.hash(password, 10);
 
-        const token = generateToken({ email });
         const newUser = await User.create({
             name,
             email,
             password: hashedPassword,
-            token,
         });
 
-        const verifyUrl = `http://localhost:3000/verify?token=${newUser.token}`;
-
-        await sendEmail({ email: newUser.email, subject: "Verify Your Email", template: emailTemplates(newUser.name, verifyUrl).VerifyEmail });
+        await sendVerificationEmail(newUser);
 
         return res.status(201).json({
             success: true,
@@ -81,38 +198,68 @@ export const login = async (
         const user = await User.findOne({ email }).select("+password");
 
         if (!user || !user.isActive) {
+            await recordAudit({ req, action: "auth.login_failed", targetType: "user", targetId: user?._id, metadata: { email } });
+
             return res.status(401).json({
                 success: false,
                 message: "Invalid email or password or user is not active",
             });
         }
 
+        if (user.lockUntil && user.lockUntil > new Date()) {
+            return res.status(423).json({
+                success: false,
+                message: "Account is temporarily locked due to too many failed login attempts",
+            });
+        }
+
         const isPasswordValid = await bcrypt.compare(password, user.password);
 
         if (!isPasswordValid) {
+            const locked = await registerFailedLogin(req, user);
+
+            if (locked) {
+                return res.status(423).json({
+                    success: false,
+                    message: "Too many failed login attempts, account has been temporarily locked",
+                });
+            }
+
             return res.status(401).json({
                 success: false,
                 message: "Invalid email or password",
             });
         }
 
-        const payload = {
-            userId: user._id,
-            name: user.name,
-            email: user.email,
-            role: user.role,
-        };
+        if (!user.emailVerified) {
+            return res.status(403).json({
+                success: false,
+                message: "Please verify your email before logging in",
+            });
+        }
+
+        if (user.twoFactorEnabled) {
+            const challengeToken = generateToken({ userId: user._id, purpose: "2fa" }, twoFactor.challengeTtlSeconds);
 
-        const accessToken = generateToken(payload);
+            return res.status(200).json({
+                success: true,
+                message: "Two-factor authentication code required",
+                data: { twoFactorRequired: true, challengeToken },
+            });
+        }
 
-        await sendEmail({ email: user.email, subject: "Welcome to Ecommerce! Get started with your account", template: emailTemplates(user.name).Welcome });
+        // with 2FA on the count is only cleared once the code checks out, otherwise
+        // wrong codes could be interleaved with password logins forever
+        if (user.failedLoginAttempts > 0 || user.lockUntil) {
+            await user.updateOne({ failedLoginAttempts: 0, lockUntil: null, unlockTokenHash: null });
+        }
 
-        await user.updateOne({ lastLogin: new Date() });
+        const { accessToken, refreshToken } = await completeLogin(req, user);
 
         return res.status(200).json({
             success: true,
             message: "User logged in successfully",
-            data: { accessToken },
+            data: { accessToken, refreshToken },
         });
 
 
@@ -124,38 +271,215 @@ export const login = async (
     }
 }
 
-export const verifyEmail = async (req: Request<{}, {}, {}, { token: string }>,
-    res: Response) => {
+export const requestMagicLink = async (
+    req: Request<{}, {}, RequestMagicLinkInput>,
+    res: Response
+) => {
     try {
-        const { token } = req.query;
+        const parsed = requestMagicLinkSchema.safeParse(req.body);
 
-        if (!token) {
+        if (!parsed.success) {
             return res.status(400).json({
                 success: false,
-                message: "Token is required",
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const user = await User.findOne({ email: parsed.data.email, isActive: true });
+
+        // same answer whether or not the email is registered, so accounts can't be
+        // enumerated; a repeat request inside the cooldown is quietly not sent
+        const isCoolingDown = !!user?.magicLinkSentAt
+            && Date.now() - user.magicLinkSentAt.getTime() < MAGIC_LINK_COOLDOWN_SECONDS * 1000;
+
+        if (user && !isCoolingDown) {
+            const token = crypto.randomBytes(32).toString("hex");
+
+            user.magicLinkTokenHash = hashToken(token);
+            user.magicLinkExpires = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000);
+            user.magicLinkSentAt = new Date();
+            await user.save();
+
+            const loginUrl = buildFrontendUrl(frontendUrls.magicLink, { token });
+
+            await sendEmail({ email: user.email, subject: "Your Login Link", template: emailTemplates(user.name, loginUrl).MagicLink });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "If an account exists for this email, a login link has been sent",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const loginWithMagicLink = async (
+    req: Request<{}, {}, MagicLinkLoginInput>,
+    res: Response
+) => {
+    try {
+        const parsed = magicLinkLoginSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
             });
         }
 
-        const decodedToken: any = verifyToken(token);
-        const user = await User.findOne({ email: decodedToken.email });
+        // consume the token in the same write that finds it, so a link can never log in twice
+        const user = await User.findOneAndUpdate(
+            {
+                magicLinkTokenHash: hashToken(parsed.data.token),
+                magicLinkExpires: { $gt: new Date() },
+                isActive: true,
+            },
+            { magicLinkTokenHash: null, magicLinkExpires: null },
+            { new: true }
+        );
+
+        if (!user) {
+            await recordAudit({ req, action: "auth.login_failed", targetType: "user", metadata: { method: "magic_link" } });
 
-        if (user?.isActive) {
             return res.status(400).json({
                 success: false,
-                message: "User is already active",
+                message: "Login link is invalid, expired or has already been used",
+            });
+        }
+
+        if (user.lockUntil && user.lockUntil > new Date()) {
+            return res.status(423).json({
+                success: false,
+                message: "Account is temporarily locked due to too many failed login attempts",
+            });
+        }
+
+        // opening the link proves the caller controls the inbox
+        if (!user.emailVerified) {
+            user.emailVerified = true;
+            user.emailVerificationTokenHash = null;
+            user.emailVerificationExpires = null;
+            await user.save();
+        }
+
+        if (user.twoFactorEnabled) {
+            const challengeToken = generateToken({ userId: user._id, purpose: "2fa" }, twoFactor.challengeTtlSeconds);
+
+            return res.status(200).json({
+                success: true,
+                message: "Two-factor authentication code required",
+                data: { twoFactorRequired: true, challengeToken },
             });
         }
 
-        user!.isActive = true;
-        user!.token = null;
-        await user!.save();
+        const { accessToken, refreshToken } = await completeLogin(req, user);
 
         return res.status(200).json({
             success: true,
-            message: "User verified successfully",
+            message: "User logged in successfully",
+            data: { accessToken, refreshToken },
         });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const loginTwoFactor = async (
+    req: Request<{}, {}, TwoFactorLoginInput>,
+    res: Response
+) => {
+    try {
+        const parsed = twoFactorLoginSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { challengeToken, code, recoveryCode } = parsed.data;
+
+        let challenge: { userId: string; purpose?: string };
+        try {
+            challenge = verifyToken(challengeToken) as { userId: string; purpose?: string };
+        } catch {
+            challenge = { userId: "" };
+        }
+
+        const user = challenge.purpose === "2fa"
+            ? await User.findById(challenge.userId).select("+twoFactorSecret")
+            : null;
+
+        if (!user || !user.isActive || !user.twoFactorEnabled || !user.twoFactorSecret) {
+            return res.status(401).json({
+                success: false,
+                message: "Invalid or expired challenge token",
+            });
+        }
+
+        if (user.lockUntil && user.lockUntil > new Date()) {
+            return res.status(423).json({
+                success: false,
+                message: "Account is temporarily locked due to too many failed login attempts",
+            });
+        }
+
+        let isCodeValid = false;
+
+        if (code) {
+            const step = verifyTotp(user.twoFactorSecret, code);
+            if (step !== null) {
+                // a code is only good once, even inside its 30 second window
+                const result = await User.updateOne(
+                    { _id: user._id, $or: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { $lt: step } }] },
+                    { twoFactorLastUsedStep: step }
+                );
+                isCodeValid = result.modifiedCount === 1;
+            }
+        } else {
+            const codeHash = hashToken(normalizeRecoveryCode(recoveryCode!));
+            const result = await User.updateOne(
+                { _id: user._id, twoFactorRecoveryCodes: codeHash },
+                { $pull: { twoFactorRecoveryCodes: codeHash } }
+            );
+            isCodeValid = result.modifiedCount === 1;
+        }
+
+        if (!isCodeValid) {
+            const locked = await registerFailedLogin(req, user);
+
+            if (locked) {
+                return res.status(423).json({
+                    success: false,
+                    message: "Too many failed login attempts, account has been temporarily locked",
+                });
+            }
+
+            return res.status(401).json({
+                success: false,
+                message: "Invalid two-factor code",
+            });
+        }
+
+        if (user.failedLoginAttempts > 0 || user.lockUntil) {
+            await user.updateOne({ failedLoginAttempts: 0, lockUntil: null, unlockTokenHash: null });
+        }
 
+        const { accessToken, refreshToken } = await completeLogin(req, user, { twoFactorVerified: true });
 
+        return res.status(200).json({
+            success: true,
+            message: "User logged in successfully",
+            data: { accessToken, refreshToken },
+        });
     } catch (error) {
         return res.status(500).json({
             success: false,
@@ -164,14 +488,35 @@ export const verifyEmail = async (req: Request<{}, {}, {}, { token: string }>,
     }
 }
 
-export const getAllUsers = async (req: Request, res: Response) => {
+export const enrollTwoFactor = async (req: Request, res: Response) => {
     try {
-        const users = await User.find({ isActive: true }).select("-password -token -__v");
+        const user = await User.findById(req.user!.userId);
 
-        res.status(200).json({
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        if (user.twoFactorEnabled) {
+            return res.status(409).json({
+                success: false,
+                message: "Two-factor authentication is already enabled",
+            });
+        }
+
+        const secret = generateTotpSecret();
+        user.twoFactorSecret = secret;
+        await user.save();
+
+        return res.status(200).json({
             success: true,
-            message: "Users fetched successfully",
-            data: users,
+            message: "Scan the code with your authenticator app and confirm it with a first code",
+            data: {
+                secret,
+                otpauthUri: buildOtpauthUri(secret, user.email, twoFactor.issuer),
+            },
         });
     } catch (error) {
         return res.status(500).json({
@@ -181,12 +526,21 @@ export const getAllUsers = async (req: Request, res: Response) => {
     }
 }
 
-export const getById = async (req: Request<{ id: string }>, res: Response) => {
+export const confirmTwoFactor = async (
+    req: Request<{}, {}, TwoFactorCodeInput>,
+    res: Response
+) => {
     try {
+        const parsed = twoFactorCodeSchema.safeParse(req.body);
 
-        const { id } = req.params;
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
 
-        const user = await User.findById(id).select("-password -token -__v");
+        const user = await User.findById(req.user!.userId).select("+twoFactorSecret");
 
         if (!user) {
             return res.status(404).json({
@@ -195,10 +549,45 @@ export const getById = async (req: Request<{ id: string }>, res: Response) => {
             });
         }
 
+        if (user.twoFactorEnabled) {
+            return res.status(409).json({
+                success: false,
+                message: "Two-factor authentication is already enabled",
+            });
+        }
+
+        if (!user.twoFactorSecret) {
+            return res.status(400).json({
+                success: false,
+                message: "Two-factor enrollment has not been started",
+            });
+        }
+
+        const step = verifyTotp(user.twoFactorSecret, parsed.data.code);
+
+        if (step === null) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid two-factor code",
+            });
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+
+        user.twoFactorEnabled = true;
+        user.twoFactorLastUsedStep = step;
+        user.twoFactorRecoveryCodes = recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode)));
+        await user.save();
+
+        // the caller just proved possession of the authenticator, the next refresh carries that over
+        await Session.updateOne({ _id: req.user!.sessionId }, { twoFactorVerified: true });
+
+        await recordAudit({ req, action: "auth.2fa_enabled", targetType: "user", targetId: user._id });
+
         return res.status(200).json({
             success: true,
-            message: "User fetched successfully",
-            data: user,
+            message: "Two-factor authentication enabled, store the recovery codes somewhere safe",
+            data: { recoveryCodes },
         });
     } catch (error) {
         return res.status(500).json({
@@ -208,43 +597,63 @@ export const getById = async (req: Request<{ id: string }>, res: Response) => {
     }
 }
 
-export const updateUser = async (
-    req: Request<{ id: string }, {}, Partial<RegisterUserInput>>,
+export const disableTwoFactor = async (
+    req: Request<{}, {}, DisableTwoFactorInput>,
     res: Response
 ) => {
     try {
-        const { id } = req.params;
-        const updateData = req.body;
+        const parsed = disableTwoFactorSchema.safeParse(req.body);
 
-        const filteredData: any = {};
-        Object.keys(updateData).forEach((key) => {
-            const value = (updateData as any)[key];
-            if (value !== null && value !== undefined && value !== "") {
-                filteredData[key] = value;
-            }
-        });
-
-        if (filteredData.password) {
-            filteredData.password = await bcrypt.hash(filteredData.password, 10);
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
         }
 
-        const updatedUser = await User.findByIdAndUpdate(
-            id,
-            { $set: filteredData },
-            { new: true, runValidators: true, context: "query" }
-        ).select("-password -token -__v");
+        const user = await User.findById(req.user!.userId).select("+password +twoFactorSecret");
 
-        if (!updatedUser) {
+        if (!user) {
             return res.status(404).json({
                 success: false,
                 message: "User not found",
             });
         }
 
+        if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+            return res.status(400).json({
+                success: false,
+                message: "Two-factor authentication is not enabled",
+            });
+        }
+
+        if (twoFactor.requiredRoles.includes(user.role)) {
+            return res.status(403).json({
+                success: false,
+                message: "Two-factor authentication is required for this account",
+            });
+        }
+
+        const isPasswordValid = await bcrypt.compare(parsed.data.password, user.password);
+
+        if (!isPasswordValid || verifyTotp(user.twoFactorSecret, parsed.data.code) === null) {
+            return res.status(401).json({
+                success: false,
+                message: "Invalid password or two-factor code",
+            });
+        }
+
+        user.twoFactorEnabled = false;
+        user.twoFactorSecret = null;
+        user.twoFactorLastUsedStep = null;
+        user.twoFactorRecoveryCodes = [];
+        await user.save();
+
+        await recordAudit({ req, action: "auth.2fa_disabled", targetType: "user", targetId: user._id });
+
         return res.status(200).json({
             success: true,
-            message: "User updated successfully",
-            data: updatedUser,
+            message: "Two-factor authentication disabled",
         });
     } catch (error) {
         return res.status(500).json({
@@ -252,21 +661,1056 @@ export const updateUser = async (
             message: "Internal server error " + error,
         });
     }
-};
+}
 
-export const deleteUser = async (req: Request<{ id: string }>, res: Response) => {
+export const refreshToken = async (
+    req: Request<{}, {}, RefreshTokenInput>,
+    res: Response
+) => {
     try {
-        const { id } = req.params;
+        const parsed = refreshTokenSchema.safeParse(req.body);
 
-        const deletedUser = await User.findByIdAndUpdate(id, { isActive: false }, { new: true })
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
 
-        if (!deletedUser) {
-            return res.status(404).json({
+        let decoded: { sessionId: string; jti: string };
+        try {
+            decoded = verifyRefreshToken(parsed.data.refreshToken);
+        } catch {
+            return res.status(401).json({
                 success: false,
-                message: "User not found",
+                message: "Invalid or expired refresh token",
+            });
+        }
+
+        const session = await Session.findById(decoded.sessionId);
+
+        if (!session || session.revokedAt) {
+            return res.status(401).json({
+                success: false,
+                message: "Session has been revoked",
+            });
+        }
+
+        const user = await User.findById(session.user);
+
+        if (!user || !user.isActive) {
+            await revokeSession(session._id, "inactive");
+            return res.status(401).json({
+                success: false,
+                message: "User is not active",
             });
         }
 
+        const tokens = await rotateSession(user, decoded.sessionId, decoded.jti);
+
+        if (!tokens) {
+            // an already rotated refresh token was presented again, so the family is compromised
+            await revokeSession(session._id, "reuse");
+            return res.status(401).json({
+                success: false,
+                message: "Refresh token reuse detected, session revoked",
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "Token refreshed successfully",
+            data: tokens,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const logout = async (
+    req: Request<{}, {}, RefreshTokenInput>,
+    res: Response
+) => {
+    try {
+        const parsed = refreshTokenSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        let decoded: { sessionId: string; jti: string };
+        try {
+            decoded = verifyRefreshToken(parsed.data.refreshToken);
+        } catch {
+            return res.status(401).json({
+                success: false,
+                message: "Invalid or expired refresh token",
+            });
+        }
+
+        const session = await Session.findById(decoded.sessionId).select("+tokenHash");
+
+        if (!session || session.revokedAt) {
+            return res.status(401).json({
+                success: false,
+                message: "Session has been revoked",
+            });
+        }
+
+        if (session.tokenHash !== hashToken(decoded.jti)) {
+            // an already rotated refresh token was presented again, so the family is compromised
+            await revokeSession(session._id, "reuse");
+            return res.status(401).json({
+                success: false,
+                message: "Refresh token reuse detected, session revoked",
+            });
+        }
+
+        await revokeSession(session._id, "logout");
+
+        return res.status(200).json({
+            success: true,
+            message: "User logged out successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const forgotPassword = async (
+    req: Request<{}, {}, ForgotPasswordInput>,
+    res: Response
+) => {
+    try {
+        const parsed = forgotPasswordSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const user = await User.findOne({ email: parsed.data.email, isActive: true });
+
+        // same answer whether or not the email is registered, so accounts can't be enumerated
+        if (user) {
+            const token = crypto.randomBytes(32).toString("hex");
+
+            user.passwordResetTokenHash = hashToken(token);
+            user.passwordResetExpires = new Date(Date.now() + RESET_PASSWORD_TTL_MINUTES * 60 * 1000);
+            await user.save();
+
+            const resetUrl = buildFrontendUrl(frontendUrls.resetPassword, { token });
+
+            await sendEmail({ email: user.email, subject: "Reset Your Password", template: emailTemplates(user.name, resetUrl).ResetPassword });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "If an account exists for this email, a password reset link has been sent",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const resetPassword = async (
+    req: Request<{}, {}, ResetPasswordInput>,
+    res: Response
+) => {
+    try {
+        const parsed = resetPasswordSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { token, password } = parsed.data;
+
+        const user = await User.findOne({
+            passwordResetTokenHash: hashToken(token),
+            passwordResetExpires: { $gt: new Date() },
+        }).select("+password +passwordHistory");
+
+        if (!user) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid or expired reset token",
+            });
+        }
+
+        const isPasswordSet = await setNewPassword(user, password);
+
+        if (!isPasswordSet) {
+            return res.status(400).json({
+                success: false,
+                message: `Password must differ from your last ${passwordPolicy.historySize} passwords`,
+            });
+        }
+
+        user.passwordResetTokenHash = null;
+        user.passwordResetExpires = null;
+        await user.save();
+
+        await revokeAllSessions(user._id, "password_reset");
+
+        await recordAudit({ req, actor: user._id, action: "auth.password_reset", targetType: "user", targetId: user._id });
+
+        return res.status(200).json({
+            success: true,
+            message: "Password reset successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const verifyEmail = async (req: Request<{ token: string }>,
+    res: Response) => {
+    try {
+        const { token } = req.params;
+
+        if (!token) {
+            return res.status(400).json({
+                success: false,
+                message: "Token is required",
+            });
+        }
+
+        const user = await User.findOne({ emailVerificationTokenHash: hashToken(token) });
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "Verification link is invalid",
+            });
+        }
+
+        if (user.emailVerified) {
+            return res.status(409).json({
+                success: false,
+                message: "Email is already verified",
+            });
+        }
+
+        if (!user.emailVerificationExpires || user.emailVerificationExpires < new Date()) {
+            return res.status(410).json({
+                success: false,
+                message: "Verification link has expired, please request a new one",
+            });
+        }
+
+        user.emailVerified = true;
+        user.emailVerificationExpires = null;
+        await user.save();
+
+        return res.status(200).json({
+            success: true,
+            message: "Email verified successfully",
+        });
+
+
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const unlockAccount = async (req: Request<{ token: string }>,
+    res: Response) => {
+    try {
+        const { token } = req.params;
+
+        const user = await User.findOne({ unlockTokenHash: hashToken(token) });
+
+        if (!user) {
+            return res.status(400).json({
+                success: false,
+                message: "Unlock link is invalid or has already been used",
+            });
+        }
+
+        user.failedLoginAttempts = 0;
+        user.lockUntil = null;
+        user.unlockTokenHash = null;
+        await user.save();
+
+        return res.status(200).json({
+            success: true,
+            message: "Account unlocked successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const resendVerification = async (
+    req: Request<{}, {}, ResendVerificationInput>,
+    res: Response
+) => {
+    try {
+        const parsed = resendVerificationSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const user = await User.findOne({ email: parsed.data.email, isActive: true });
+
+        // same answer either way, so accounts can't be enumerated; a repeat request
+        // inside the cooldown is quietly not sent
+        const isCoolingDown = !!user?.emailVerificationSentAt
+            && Date.now() - user.emailVerificationSentAt.getTime() < RESEND_VERIFICATION_COOLDOWN_SECONDS * 1000;
+
+        if (user && !user.emailVerified && !isCoolingDown) {
+            await sendVerificationEmail(user);
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "If this email needs verification, a new link has been sent",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const changePassword = async (
+    req: Request<{}, {}, ChangePasswordInput>,
+    res: Response
+) => {
+    try {
+        const parsed = changePasswordSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { currentPassword, newPassword } = parsed.data;
+
+        const user = await User.findById(req.user!.userId).select("+password +passwordHistory");
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+
+        if (!isPasswordValid) {
+            return res.status(401).json({
+                success: false,
+                message: "Current password is incorrect",
+            });
+        }
+
+        const isPasswordSet = await setNewPassword(user, newPassword);
+
+        if (!isPasswordSet) {
+            return res.status(400).json({
+                success: false,
+                message: `Password must differ from your last ${passwordPolicy.historySize} passwords`,
+            });
+        }
+
+        await user.save();
+
+        // keep the caller signed in, sign out everywhere else
+        await revokeAllSessions(user._id, "password_changed", req.user!.sessionId);
+
+        await recordAudit({ req, action: "auth.password_changed", targetType: "user", targetId: user._id });
+
+        return res.status(200).json({
+            success: true,
+            message: "Password changed successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const requestEmailChange = async (
+    req: Request<{}, {}, ChangeEmailInput>,
+    res: Response
+) => {
+    try {
+        const parsed = changeEmailSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { newEmail, password } = parsed.data;
+
+        const user = await User.findById(req.user!.userId).select("+password");
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        const isPasswordValid = await bcrypt.compare(password, user.password);
+
+        if (!isPasswordValid) {
+            return res.status(401).json({
+                success: false,
+                message: "Invalid password",
+            });
+        }
+
+        if (newEmail === user.email) {
+            return res.status(400).json({
+                success: false,
+                message: "New email must be different from the current one",
+            });
+        }
+
+        const isEmailTaken = await User.exists({ email: newEmail });
+
+        if (isEmailTaken) {
+            return res.status(409).json({
+                success: false,
+                message: "Email is already in use",
+            });
+        }
+
+        const token = crypto.randomBytes(32).toString("hex");
+
+        user.pendingEmail = newEmail;
+        user.pendingEmailTokenHash = hashToken(token);
+        user.pendingEmailExpires = new Date(Date.now() + EMAIL_CHANGE_TTL_HOURS * 60 * 60 * 1000);
+        await user.save();
+
+        const confirmUrl = buildFrontendUrl(frontendUrls.confirmEmailChange, { token });
+
+        await sendEmail({ email: newEmail, subject: "Confirm Your New Email", template: emailTemplates(user.name, confirmUrl).ConfirmEmailChange });
+        await sendEmail({ email: user.email, subject: "Email Change Requested", template: emailTemplates(user.name, undefined, newEmail).EmailChangeRequested });
+
+        return res.status(200).json({
+            success: true,
+            message: "Confirmation link sent to the new email address",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const confirmEmailChange = async (req: Request<{ token: string }>,
+    res: Response) => {
+    try {
+        const { token } = req.params;
+
+        const user = await User.findOne({
+            pendingEmailTokenHash: hashToken(token),
+            pendingEmailExpires: { $gt: new Date() },
+        });
+
+        if (!user || !user.pendingEmail) {
+            return res.status(400).json({
+                success: false,
+                message: "Invalid or expired email change link",
+            });
+        }
+
+        const previousEmail = user.email;
+        user.email = user.pendingEmail;
+        user.pendingEmail = null;
+        user.pendingEmailTokenHash = null;
+        user.pendingEmailExpires = null;
+
+        try {
+            await user.save();
+        } catch (error) {
+            // someone registered or confirmed the same address in the meantime
+            if (error instanceof mongoose.mongo.MongoServerError && error.code === 11000) {
+                return res.status(409).json({
+                    success: false,
+                    message: "Email is already in use",
+                });
+            }
+            throw error;
+        }
+
+        await recordAudit({
+            req,
+            actor: user._id,
+            action: "user.email_changed",
+            targetType: "user",
+            targetId: user._id,
+            before: { email: previousEmail },
+            after: { email: user.email },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: "Email changed successfully",
+            data: { email: user.email },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const requestErasure = async (
+    req: Request<{}, {}, RequestErasureInput>,
+    res: Response
+) => {
+    try {
+        const parsed = requestErasureSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const user = await User.findById(req.user!.userId).select("+password");
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        const isPasswordValid = await bcrypt.compare(parsed.data.password, user.password);
+
+        if (!isPasswordValid) {
+            return res.status(401).json({
+                success: false,
+                message: "Invalid password",
+            });
+        }
+
+        if (user.erasureScheduledFor) {
+            return res.status(409).json({
+                success: false,
+                message: "Account erasure is already scheduled",
+                data: { erasureScheduledFor: user.erasureScheduledFor },
+            });
+        }
+
+        user.erasureRequestedAt = new Date();
+        user.erasureScheduledFor = new Date(Date.now() + ERASURE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+        await user.save();
+
+        await recordAudit({
+            req,
+            action: "user.erasure_requested",
+            targetType: "user",
+            targetId: user._id,
+            metadata: { erasureScheduledFor: user.erasureScheduledFor },
+        });
+
+        return res.status(200).json({
+            success: true,
+            message: `Account will be erased in ${ERASURE_GRACE_DAYS} days unless the request is cancelled`,
+            data: { erasureScheduledFor: user.erasureScheduledFor },
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const cancelErasure = async (req: Request, res: Response) => {
+    try {
+        const user = await User.findOneAndUpdate(
+            { _id: req.user!.userId, erasureScheduledFor: { $ne: null } },
+            { erasureRequestedAt: null, erasureScheduledFor: null },
+            { new: true }
+        );
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "No account erasure is scheduled",
+            });
+        }
+
+        await recordAudit({ req, action: "user.erasure_cancelled", targetType: "user", targetId: user._id });
+
+        return res.status(200).json({
+            success: true,
+            message: "Account erasure cancelled",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const getAllUsers = async (
+    req: Request<{}, {}, {}, ListUsersQuery>,
+    res: Response
+) => {
+    try {
+        const parsed = listUsersQuerySchema.safeParse(req.query);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const { search, role, isActive, emailVerified, sortBy, order, page, limit } = parsed.data;
+
+        const filter: Record<string, unknown> = {};
+        if (search) {
+            const pattern = new RegExp(escapeRegex(search), "i");
+            filter.$or = [{ name: pattern }, { email: pattern }];
+        }
+        if (role) filter.role = role;
+        if (isActive !== undefined) filter.isActive = isActive;
+        if (emailVerified !== undefined) filter.emailVerified = emailVerified;
+
+        const [users, total] = await Promise.all([
+            User.aggregate([
+                { $match: filter },
+                { $sort: { [sortBy]: order === "asc" ? 1 : -1, _id: 1 } },
+                { $skip: (page - 1) * limit },
+                { $limit: limit },
+                {
+                    $lookup: {
+                        from: Order.collection.name,
+                        localField: "_id",
+                        foreignField: "user",
+                        as: "orders",
+                        pipeline: [
+                            { $project: { totalAmount: 1, paymentStatus: 1 } },
+                        ],
+                    },
+                },
+                // aggregate ignores `select: false`, so only whitelisted fields leave the database
+                {
+                    $project: {
+                        name: 1,
+                        email: 1,
+                        role: 1,
+                        isActive: 1,
+                        emailVerified: 1,
+                        twoFactorEnabled: 1,
+                        lastLogin: 1,
+                        erasureScheduledFor: 1,
+                        erasedAt: 1,
+                        createdAt: 1,
+                        updatedAt: 1,
+                        orderCount: { $size: "$orders" },
+                        lifetimeSpend: {
+                            $sum: {
+                                $map: {
+                                    input: "$orders",
+                                    as: "order",
+                                    in: { $cond: [{ $eq: ["$$order.paymentStatus", "completed"] }, "$$order.totalAmount", 0] },
+                                },
+                            },
+                        },
+                    },
+                },
+            ]),
+            User.countDocuments(filter),
+        ]);
+
+        res.status(200).json({
+            success: true,
+            message: "Users fetched successfully",
+            data: users,
+            pagination: buildPagination(page, limit, total),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const updateUserRole = async (
+    req: Request<{ id: string }, {}, UpdateRoleInput>,
+    res: Response
+) => {
+    try {
+        const { id } = req.params;
+
+        const parsed = updateRoleSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        if (id === req.user!.userId) {
+            return res.status(400).json({
+                success: false,
+                message: "You cannot change your own role",
+            });
+        }
+
+        const user = await User.findById(id).select("-password -__v");
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        const previousRole = user.role;
+        user.role = parsed.data.role;
+        await user.save();
+
+        await recordAudit({
+            req,
+            action: "user.role_changed",
+            targetType: "user",
+            targetId: user._id,
+            before: { role: previousRole },
+            after: { role: user.role },
+        });
+
+        // the role travels inside access tokens, so make the user sign in again
+        await revokeAllSessions(user._id, "revoked");
+
+        return res.status(200).json({
+            success: true,
+            message: "User role updated successfully",
+            data: user,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const reactivateUser = async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const user = await User.findById(id);
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        if (user.erasedAt) {
+            return res.status(409).json({
+                success: false,
+                message: "Erased users cannot be reactivated",
+            });
+        }
+
+        if (user.isActive) {
+            return res.status(409).json({
+                success: false,
+                message: "User is already active",
+            });
+        }
+
+        user.isActive = true;
+        await user.save();
+
+        await recordAudit({ req, action: "user.reactivated", targetType: "user", targetId: user._id });
+
+        return res.status(200).json({
+            success: true,
+            message: "User reactivated successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const getMe = async (req: Request, res: Response) => {
+    try {
+        const user = await User.findById(req.user!.userId)
+            .select("-password -__v")
+            .populate("addresses");
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "User fetched successfully",
+            data: user.toJSON({ virtuals: true }),
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const updateAvatar = async (req: Request, res: Response) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({
+                success: false,
+                message: "Avatar image is required",
+            });
+        }
+
+        const user = await User.findById(req.user!.userId);
+
+        if (!user) {
+            await destroyImages([{ publicId: req.file.filename }]);
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        const previousPublicId = user.avatar?.publicId;
+
+        // multer-storage-cloudinary puts the url in `path` and the public id in `filename`
+        user.avatar = { url: req.file.path, publicId: req.file.filename };
+        await user.save();
+
+        await destroyImages([{ publicId: previousPublicId }]);
+
+        return res.status(200).json({
+            success: true,
+            message: "Avatar updated successfully",
+            data: { avatar: user.avatar },
+        });
+    } catch (error) {
+        // the upload has already happened, don't keep it if the user never got it
+        await destroyImages([{ publicId: req.file?.filename }]);
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const deleteAvatar = async (req: Request, res: Response) => {
+    try {
+        const user = await User.findById(req.user!.userId);
+
+        if (!user || !user.avatar) {
+            return res.status(404).json({
+                success: false,
+                message: "Avatar not found",
+            });
+        }
+
+        const { publicId } = user.avatar;
+        user.avatar = null;
+        await user.save();
+
+        await destroyImages([{ publicId }]);
+
+        return res.status(200).json({
+            success: true,
+            message: "Avatar removed successfully",
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const getById = async (req: Request<{ id: string }>, res: Response) => {
+    try {
+
+        const { id } = req.params;
+
+        const user = await User.findById(id).select("-password -__v");
+
+        if (!user) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "User fetched successfully",
+            data: user,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+}
+
+export const updateUser = async (
+    req: Request<{ id: string }, {}, UpdateUserInput>,
+    res: Response
+) => {
+    try {
+        const { id } = req.params;
+
+        const parsed = updateUserSchema.safeParse(req.body);
+
+        if (!parsed.success) {
+            return res.status(400).json({
+                success: false,
+                errors: parsed.error.issues.map(err => err.message),
+            });
+        }
+
+        const updateData = parsed.data;
+
+        if (updateData.email) {
+            return res.status(400).json({
+                success: false,
+                message: "Use the change email endpoint to update your email",
+            });
+        }
+
+        if (updateData.password) {
+            return res.status(400).json({
+                success: false,
+                message: "Use the change password endpoint to update your password",
+            });
+        }
+
+        // role, email, password and activation state are never writable through this endpoint
+        const filteredData: { name?: string; number?: string | null; numberVerified?: boolean } = {};
+        if (updateData.name) {
+            filteredData.name = updateData.name;
+        }
+        // null clears the number
+        if (updateData.number !== undefined) {
+            filteredData.number = updateData.number;
+        }
+
+        const previousUser = await User.findById(id).select("name number");
+
+        if (filteredData.number !== undefined && filteredData.number !== previousUser?.number) {
+            filteredData.numberVerified = false;
+        }
+
+        const updatedUser = await User.findByIdAndUpdate(
+            id,
+            { $set: filteredData },
+            { new: true, runValidators: true, context: "query" }
+        ).select("-password -__v");
+
+        if (!updatedUser) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        if (filteredData.name || filteredData.number !== undefined) {
+            await recordAudit({
+                req,
+                action: "user.updated",
+                targetType: "user",
+                targetId: updatedUser._id,
+                before: { name: previousUser?.name, number: previousUser?.number },
+                after: { name: updatedUser.name, number: updatedUser.number },
+            });
+        }
+
+        return res.status(200).json({
+            success: true,
+            message: "User updated successfully",
+            data: updatedUser,
+        });
+    } catch (error) {
+        return res.status(500).json({
+            success: false,
+            message: "Internal server error " + error,
+        });
+    }
+};
+
+export const deleteUser = async (req: Request<{ id: string }>, res: Response) => {
+    try {
+        const { id } = req.params;
+
+        const deletedUser = await User.findByIdAndUpdate(id, { isActive: false }, { new: true })
+
+        if (!deletedUser) {
+            return res.status(404).json({
+                success: false,
+                message: "User not found",
+            });
+        }
+
+        await revokeAllSessions(deletedUser._id, "inactive");
+
+        await recordAudit({ req, action: "user.deactivated", targetType: "user", targetId: deletedUser._id });
+
         return res.status(200).json({
             success: true,
             message: "User deleted successfully",
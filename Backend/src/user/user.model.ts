@@ -1,14 +1,43 @@
 import mongoose from "mongoose";
 
-interface UserModel {
+interface UserAvatar {
+    url: string;
+    publicId: string;
+}
+
+export interface UserModel {
     name: string;
     email: string;
     password: string;
-    number?: string;
-    token?: string | null;
+    passwordHistory: string[];
+    number?: string | null;
+    numberVerified: boolean;
+    avatar?: UserAvatar | null;
     role: "user" | "admin";
     isActive: boolean;
+    emailVerified: boolean;
+    emailVerificationTokenHash?: string | null;
+    emailVerificationExpires?: Date | null;
+    emailVerificationSentAt?: Date | null;
     lastLogin?: Date;
+    passwordResetTokenHash?: string | null;
+    passwordResetExpires?: Date | null;
+    magicLinkTokenHash?: string | null;
+    magicLinkExpires?: Date | null;
+    magicLinkSentAt?: Date | null;
+    failedLoginAttempts: number;
+    lockUntil?: Date | null;
+    unlockTokenHash?: string | null;
+    twoFactorEnabled: boolean;
+    twoFactorSecret?: string | null;
+    twoFactorLastUsedStep?: number | null;
+    twoFactorRecoveryCodes: string[];
+    pendingEmail?: string | null;
+    pendingEmailTokenHash?: string | null;
+    pendingEmailExpires?: Date | null;
+    erasureRequestedAt?: Date | null;
+    erasureScheduledFor?: Date | null;
+    erasedAt?: Date | null;
 }
 
 const userSchema = new mongoose.Schema<UserModel>(
@@ -34,24 +63,174 @@ const userSchema = new mongoose.Schema<UserModel>(
             select: false,
         },
 
+        number: {
+            type: String,
+            default: null,
+            trim: true,
+        },
+
+        // reset whenever the number changes
+        numberVerified: {
+            type: Boolean,
+            default: false,
+        },
+
+        avatar: {
+            type: new mongoose.Schema<UserAvatar>(
+                {
+                    url: { type: String, required: true },
+                    publicId: { type: String, required: true },
+                },
+                { _id: false }
+            ),
+            default: null,
+        },
+
+        // hashes of previous passwords, newest first
+        passwordHistory: {
+            type: [String],
+            default: [],
+            select: false,
+        },
+
         role: {
             type: String,
             enum: ["user", "admin"],
             default: "user",
         },
-        token: {
-            type: String,
-            default: null,
-        },
 
         isActive: {
             type: Boolean,
             default: true,
         },
 
+        emailVerified: {
+            type: Boolean,
+            default: false,
+        },
+
+        // kept after verification so a reused link can be told apart from an unknown one
+        emailVerificationTokenHash: {
+            type: String,
+            default: null,
+            select: false,
+        },
+
+        emailVerificationExpires: {
+            type: Date,
+            default: null,
+        },
+
+        emailVerificationSentAt: {
+            type: Date,
+            default: null,
+        },
+
         lastLogin: {
             type: Date,
         },
+
+        passwordResetTokenHash: {
+            type: String,
+            default: null,
+            select: false,
+        },
+
+        passwordResetExpires: {
+            type: Date,
+            default: null,
+        },
+
+        magicLinkTokenHash: {
+            type: String,
+            default: null,
+            select: false,
+        },
+
+        magicLinkExpires: {
+            type: Date,
+            default: null,
+        },
+
+        magicLinkSentAt: {
+            type: Date,
+            default: null,
+        },
+
+        failedLoginAttempts: {
+            type: Number,
+            default: 0,
+        },
+
+        lockUntil: {
+            type: Date,
+            default: null,
+        },
+
+        unlockTokenHash: {
+            type: String,
+            default: null,
+            select: false,
+        },
+
+        twoFactorEnabled: {
+            type: Boolean,
+            default: false,
+        },
+
+        // set on enrollment, only trusted once twoFactorEnabled is true
+        twoFactorSecret: {
+            type: String,
+            default: null,
+            select: false,
+        },
+
+        twoFactorLastUsedStep: {
+            type: Number,
+            default: null,
+            select: false,
+        },
+
+        twoFactorRecoveryCodes: {
+            type: [String],
+            default: [],
+            select: false,
+        },
+
+        // the current email stays in use until the new one is confirmed
+        pendingEmail: {
+            type: String,
+            default: null,
+            lowercase: true,
+            trim: true,
+        },
+
+        pendingEmailTokenHash: {
+            type: String,
+            default: null,
+            select: false,
+        },
+
+        pendingEmailExpires: {
+            type: Date,
+            default: null,
+        },
+
+        erasureRequestedAt: {
+            type: Date,
+            default: null,
+        },
+
+        erasureScheduledFor: {
+            type: Date,
+            default: null,
+            index: true,
+        },
+
+        erasedAt: {
+            type: Date,
+            default: null,
+        },
     },
     {
         timestamps: true,
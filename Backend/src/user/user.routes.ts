@@ -1,15 +1,47 @@
 import { Router } from "express";
-import { login, registerUser, verifyEmail, getAllUsers, getById, updateUser, deleteUser } from "./user.controllers";
-import { authMiddleware } from "../helpers/auth";
+import { login, requestMagicLink, loginWithMagicLink, loginTwoFactor, enrollTwoFactor, confirmTwoFactor, disableTwoFactor, refreshToken, logout, forgotPassword, resetPassword, registerUser, verifyEmail, resendVerification, unlockAccount, changePassword, requestEmailChange, confirmEmailChange, requestErasure, cancelErasure, getAllUsers, updateUserRole, reactivateUser, getMe, updateAvatar, deleteAvatar, getById, updateUser, deleteUser } from "./user.controllers";
+import { authMiddleware, requireUserSession } from "../helpers/auth";
+import { requirePermission, requireSelfOrPermission } from "../helpers/permissions";
+import { rateLimit } from "../helpers/rateLimit";
+import { loginProtection } from "../config/security";
+import { avatarUpload } from "../helpers/upload";
 
 const router = Router();
 
+const loginRateLimit = rateLimit({
+    windowMs: loginProtection.ipWindowMinutes * 60 * 1000,
+    max: loginProtection.ipMaxAttempts,
+    message: "Too many login attempts, please try again later",
+});
+
 router.post('/register', registerUser);
-router.post('/login', login);
+router.post('/login', loginRateLimit, login);
+router.post('/login/2fa', loginRateLimit, loginTwoFactor);
+router.post('/login/magic-link', loginRateLimit, requestMagicLink);
+router.post('/login/magic-link/verify', loginRateLimit, loginWithMagicLink);
+router.post('/2fa/enroll', authMiddleware, requireUserSession, enrollTwoFactor);
+router.post('/2fa/confirm', authMiddleware, requireUserSession, confirmTwoFactor);
+router.post('/2fa/disable', authMiddleware, requireUserSession, disableTwoFactor);
+router.post('/refresh', refreshToken);
+router.post('/logout', logout);
+router.post('/forgot-password', forgotPassword);
+router.post('/reset-password', resetPassword);
 router.get('/verify/:token', verifyEmail);
-router.get('/all', authMiddleware, getAllUsers);
-router.get('/get/:id', authMiddleware, getById);
-router.put('/update/:id', authMiddleware, updateUser);
-router.delete('/delete/:id', authMiddleware, deleteUser);
+router.post('/resend-verification', resendVerification);
+router.get('/unlock/:token', unlockAccount);
+router.post('/change-password', authMiddleware, requireUserSession, requirePermission("profile:manage"), changePassword);
+router.post('/change-email', authMiddleware, requireUserSession, requirePermission("profile:manage"), requestEmailChange);
+router.get('/change-email/confirm/:token', confirmEmailChange);
+router.post('/erasure', authMiddleware, requireUserSession, requirePermission("profile:manage"), requestErasure);
+router.delete('/erasure', authMiddleware, requireUserSession, requirePermission("profile:manage"), cancelErasure);
+router.get('/me', authMiddleware, requireUserSession, requirePermission("profile:manage"), getMe);
+router.put('/me/avatar', authMiddleware, requireUserSession, requirePermission("profile:manage"), avatarUpload.single("avatar"), updateAvatar);
+router.delete('/me/avatar', authMiddleware, requireUserSession, requirePermission("profile:manage"), deleteAvatar);
+router.get('/all', authMiddleware, requirePermission("users:read"), getAllUsers);
+router.get('/get/:id', authMiddleware, requireSelfOrPermission("users:read"), getById);
+router.put('/update/:id', authMiddleware, requireSelfOrPermission("users:manage"), updateUser);
+router.delete('/delete/:id', authMiddleware, requireSelfOrPermission("users:manage"), deleteUser);
+router.put('/:id/role', authMiddleware, requireUserSession, requirePermission("users:manage"), updateUserRole);
+router.put('/:id/reactivate', authMiddleware, requireUserSession, requirePermission("users:manage"), reactivateUser);
 
 export default router;
\ No newline at end of file
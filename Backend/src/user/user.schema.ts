@@ -1,4 +1,13 @@
 import { z } from "zod";
+import { booleanQuery, limitQuery, pageQuery } from "../helpers/query";
+import { passwordSchema } from "../helpers/passwordPolicy";
+
+// E.164: a leading +, country code and subscriber number, up to 15 digits
+const phoneSchema = z
+  .string()
+  .trim()
+  .transform(value => value.replace(/[\s()-]/g, ""))
+  .pipe(z.string().regex(/^\+[1-9]\d{7,14}$/, "Phone number must be in international format, e.g. +923001234567"));
 
 export const registerUserSchema = z.object({
   name: z
@@ -8,18 +17,115 @@ export const registerUserSchema = z.object({
 
   email: z.email("Invalid email address").toLowerCase(),
 
-  password: z
-    .string()
-    .min(8, "Password must be exactly 8 characters")
-    .regex(/[A-Z]/, "Password must contain at least 1 capital letter")
-    .regex(/[0-9]/, "Password must contain at least 1 number")
-    .regex(/[^A-Za-z0-9]/, "Password must contain at least 1 special character"),
+  password: passwordSchema,
 });
 
 export const loginUserSchema = z.object({
   email: z.email("Invalid email address").toLowerCase(),
-  password: z.string().min(8, "Password must be exactly 8 characters"),
+  // the policy only applies when a password is chosen, not when it is typed in
+  password: z.string().min(1, "Password is required"),
+});
+
+export const updateUserSchema = z.object({
+  name: z
+    .string()
+    .min(2, "Name must be at least 2 characters long")
+    .trim()
+    .optional(),
+  number: phoneSchema.nullable().optional(),
+  password: z.string().optional(),
+  email: z.string().optional(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.email("Invalid email address").toLowerCase(),
+});
+
+export const resendVerificationSchema = z.object({
+  email: z.email("Invalid email address").toLowerCase(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+export const requestMagicLinkSchema = z.object({
+  email: z.email("Invalid email address").toLowerCase(),
+});
+
+export const magicLinkLoginSchema = z.object({
+  token: z.string().min(1, "Token is required"),
 });
 
+export const changeEmailSchema = z.object({
+  newEmail: z.email("Invalid email address").toLowerCase(),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const requestErasureSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const listUsersQuerySchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  role: z.enum(["user", "admin"]).optional(),
+  isActive: booleanQuery.optional(),
+  emailVerified: booleanQuery.optional(),
+  sortBy: z.enum(["createdAt", "lastLogin"]).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  page: pageQuery,
+  limit: limitQuery,
+});
+
+export const updateRoleSchema = z.object({
+  role: z.enum(["user", "admin"], "Role must be user or admin"),
+});
+
+const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "Code must be 6 digits");
+
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeSchema,
+});
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+  code: totpCodeSchema,
+});
+
+export const twoFactorLoginSchema = z
+  .object({
+    challengeToken: z.string().min(1, "Challenge token is required"),
+    code: totpCodeSchema.optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine(data => !!data.code || !!data.recoveryCode, {
+    message: "Either a code or a recovery code is required",
+  });
+
 export type RegisterUserInput = z.infer<typeof registerUserSchema>;
-export type LoginUserInput = z.infer<typeof loginUserSchema>;
\ No newline at end of file
+export type LoginUserInput = z.infer<typeof loginUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
+export type ResendVerificationInput = z.infer<typeof resendVerificationSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type RequestMagicLinkInput = z.infer<typeof requestMagicLinkSchema>;
+export type MagicLinkLoginInput = z.infer<typeof magicLinkLoginSchema>;
+export type ChangeEmailInput = z.infer<typeof changeEmailSchema>;
+export type RequestErasureInput = z.infer<typeof requestErasureSchema>;
+export type ListUsersQuery = z.input<typeof listUsersQuerySchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
\ No newline at end of file